@@ -1,29 +1,113 @@
-import { config } from './config';
+import { config, type TierDefinition } from './config';
 import * as db from './db/drizzle';
 import {
   approveChatJoinRequest,
   createChatInviteLink,
+  declineChatJoinRequest,
+  getChatMember,
+  revokeChatInviteLink,
+  demoteChatMember,
   initializeBot,
   kickChatMember,
+  promoteTitleOnlyAdmin,
+  sendDocument,
   sendMessage,
+  setChatAdministratorCustomTitle,
   unbanChatMember,
   type TelegramMessage,
   type TelegramChatJoinRequest,
   type TelegramChatMemberUpdated,
+  type TelegramChatMember,
   type ChatInviteLink,
 } from './services/telegram';
-import { findMatchingTransfer, verifyOwnership } from './services/solana';
-import { getRandomVerificationAmount } from './utils/random';
+import {
+  findMatchingTransfer,
+  getMintInfo,
+  liveBalanceSource,
+  type BalanceSource,
+  type MatchingTransfer,
+  type OwnershipResult,
+} from './services/solana';
+import { createSweepBalanceSource } from './services/sweep';
+import { planSweepActions } from './services/sweepPolicy';
+import { getRpcMetrics } from './services/rpc';
+import { buildTransferCriteria, startTreasuryWatcher } from './services/treasury';
+import { buildExport, parseExportKind } from './services/export';
+import { startAdminApi, type RecheckResult } from './services/adminApi';
+import { buildTrendDigest, downsampleDaily, sparkline, toTrend, type HolderTrend } from './services/trends';
+import {
+  createBatchId,
+  formatRefundBatch,
+  isTransactionSignature,
+  summarizeRefunds,
+} from './services/refunds';
+import {
+  deleteRule,
+  evaluateRule,
+  getGatedChatIds,
+  getRules,
+  getVerificationMint,
+  parseConditionSpec,
+  resolveRule,
+  saveRule,
+  type GatingCondition,
+  type GatingRule,
+  type RuleEvaluation,
+  type RuleOperator,
+} from './services/gating';
+import { getRandomVerificationAmount, getVerificationNonce } from './utils/random';
+import { buildSignatureChallenge, verifyWalletSignature } from './utils/signature';
+import { DAY_MS, parseDay, toDayRange } from './utils/dates';
+import { getExportContentType, parseExportFormat } from './utils/exportFormat';
 import * as logger from './utils/logger';
-import type { UserRow } from './db/drizzle';
+import type {
+  BalanceSnapshotInput,
+  BalanceSnapshotRow,
+  GroupInviteRow,
+  LinkedWalletRow,
+  MembershipStatus,
+  UsedSignatureRow,
+  UserRow,
+} from './db/drizzle';
+import { isEventType, type VerificationEvent, type VerificationEventRecord, type VerificationEventType } from './db/events';
 
 const VERIFICATION_WINDOW_MINUTES = 30;
 const TELEGRAM_MESSAGE_CHARACTER_LIMIT = 3500;
+const INVITE_CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+const JOIN_REQUEST_CHECK_INTERVAL_MS = 60 * 1000;
+const UNVERIFIED_MEMBER_CHECK_INTERVAL_MS = 60 * 1000;
+const HISTORY_EVENT_LIMIT = 100;
+const TREND_DIGEST_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const TREND_DIGEST_STATE_KEY = 'trend_digest_sent_at';
+const DEFAULT_TREND_DAYS = 30;
 
 function formatPercent(value: number): string {
   return (value * 100).toFixed(4);
 }
 
+function formatCondition(condition: GatingCondition): string {
+  if (condition.thresholdType === 'percent') {
+    return `${formatPercent(condition.threshold)}% of the supply of ${condition.mint}`;
+  }
+  return `${condition.threshold} tokens of ${condition.mint}`;
+}
+
+function formatRule(rule: GatingRule): string {
+  const joiner = rule.operator === 'or' ? ' OR ' : ' AND ';
+  return rule.conditions.map(formatCondition).join(joiner);
+}
+
+function formatEvaluation(evaluation: RuleEvaluation): string {
+  return evaluation.results
+    .map((result) => {
+      const { condition, ownership } = result;
+      const held =
+        condition.thresholdType === 'percent' ? `${formatPercent(ownership.percentOwned)}% of supply` : `${ownership.balance} tokens`;
+      return `${result.isMet ? '✅' : '❌'} ${condition.mint}: ${held}`;
+    })
+    .join('\n');
+}
+
 function sanitizeWallet(address?: string): string {
   if (!address) return '';
   return address.trim();
@@ -80,29 +164,81 @@ function chunkLines(lines: string[]): string[] {
   return chunks;
 }
 
+function getLinkedWalletAddresses(telegramId: string): string[] {
+  return db.getLinkedWallets(telegramId).map((wallet) => wallet.walletAddress);
+}
+
+function formatWalletLine(wallet: LinkedWalletRow): string {
+  const balance = wallet.lastBalance ?? 'unknown';
+  return `${wallet.walletAddress} (balance: ${balance})`;
+}
+
+function getVerificationSignature(signatures: UsedSignatureRow[], walletAddress: string): string | null {
+  return signatures.find((entry) => entry.walletAddress === walletAddress)?.signature ?? null;
+}
+
+function getPresentChatIds(telegramId: string): string[] {
+  return db
+    .getMemberships(telegramId)
+    .filter((membership) => membership.status === 'joined' || membership.status === 'restricted')
+    .map((membership) => membership.chatId);
+}
+
 function formatAuditLine(user: UserRow, index: number): string {
   const balance = user.lastBalance ?? 0;
   const verifiedAt = user.verifiedAt ? new Date(user.verifiedAt).toISOString() : 'unknown';
   const lastChecked = user.lastCheckedAt ? new Date(user.lastCheckedAt).toISOString() : 'unknown';
-  const wallet = user.walletAddress ?? 'n/a';
+  const wallets = db.getLinkedWallets(String(user.telegramId));
+  const signatures = db.getUsedSignatures(String(user.telegramId));
+  const walletLines = wallets.length
+    ? wallets
+        .map((wallet) => {
+          const signature = getVerificationSignature(signatures, wallet.walletAddress);
+          return `\n      - ${formatWalletLine(wallet)}${signature ? `\n        tx: ${signature}` : ''}`;
+        })
+        .join('')
+    : ' n/a';
   const status = user.isWhitelisted ? 'whitelisted' : 'verified';
-  return `${index + 1}. ${formatUserIdentifier(user)} — ${status}\n    Wallet: ${wallet}\n    Balance: ${balance}\n    Verified: ${verifiedAt}\n    Last sweep: ${lastChecked}`;
+  const presentIn = getPresentChatIds(String(user.telegramId));
+  const membership = presentIn.length ? presentIn.join(', ') : 'not in any tracked chat';
+  return `${index + 1}. ${formatUserIdentifier(user)} — ${status}\n    Wallets:${walletLines}\n    Total balance: ${balance}\n    In group: ${membership}\n    Verified: ${verifiedAt}\n    Last sweep: ${lastChecked}`;
+}
+
+function formatRpcMetricsLines(): string[] {
+  const lines = ['RPC endpoints:'];
+  getRpcMetrics().forEach((metrics) => {
+    const status = metrics.healthy ? 'healthy' : `cooling down until ${metrics.cooldownUntil}`;
+    const latency = metrics.averageLatencyMs === null ? 'n/a' : `${metrics.averageLatencyMs}ms`;
+    lines.push(
+      `- ${metrics.endpoint} — ${status}\n    Requests: ${metrics.requests} (ok ${metrics.successes}, failed ${metrics.failures}, retries ${metrics.retries})\n    429s: ${metrics.rateLimited}, timeouts: ${metrics.timeouts}, avg latency: ${latency}`
+    );
+    if (metrics.lastError) {
+      lines.push(`    Last error: ${metrics.lastError} at ${metrics.lastErrorAt}`);
+    }
+  });
+  return lines;
 }
 
 async function handleStart(message: TelegramMessage): Promise<void> {
   const chatId = message.chat.id;
   const from = message.from;
   if (!from) return;
-  db.upsertUser(String(from.id), from.username || from.first_name || '');
+  const user = db.upsertUser(String(from.id), from.username || from.first_name || '');
+  const rule = resolveRule(user?.requestedGroupId);
   const instructions = [
     '*Welcome to the SafeSol Gating Bot!*',
     '',
     '1. Request to join the gated Telegram group.',
-    `2. Run /verify <wallet> with the Solana wallet that holds your ${config.tokenMint ? `SPL token (${config.tokenMint})` : 'token'}.`,
+    `2. Run /verify <wallet> with the Solana wallet that holds your ${rule ? `SPL token (${rule.conditions.map((condition) => condition.mint).join(', ')})` : 'token'}.`,
     '3. You will receive a unique token amount to send to the treasury wallet as a verification code.',
     '4. Send the token transfer and then run /confirm to finish.',
+    '5. Repeat /verify for any other wallet you hold tokens in. Holdings across all linked wallets are combined.',
+    '',
+    'Use /wallets to list your linked wallets and /unlink <wallet> to remove one.',
     '',
-    `You must continue to hold at least ${formatPercent(config.requiredPercent)}% of the total token supply to stay in the group. The bot checks this hourly.`,
+    rule
+      ? `You must continue to hold at least ${formatRule(rule)} to stay in the group. The bot checks this hourly.`
+      : 'The bot checks your holdings hourly to make sure you still qualify.',
   ].join('\n');
   await sendMessage(chatId, instructions);
 }
@@ -111,23 +247,90 @@ async function handleVerify(message: TelegramMessage, args: string[]): Promise<v
   const chatId = message.chat.id;
   const from = message.from;
   if (!from) return;
-  db.upsertUser(String(from.id), from.username || from.first_name || '');
+  const user = db.upsertUser(String(from.id), from.username || from.first_name || '');
   const wallet = sanitizeWallet(args[0]);
   if (!wallet) {
     await sendMessage(chatId, 'Please provide a wallet address. Example: /verify YourWalletAddress');
     return;
   }
-  const verificationAmount = getRandomVerificationAmount();
+  if (getLinkedWalletAddresses(String(from.id)).includes(wallet)) {
+    if (user && !user.verified) {
+      // Proven wallets stay linked when holdings fall short, so this is how the user retries admission.
+      await recheckLinkedWallets(user, chatId);
+      return;
+    }
+    await sendMessage(chatId, 'This wallet is already linked to your account. Use /wallets to see all linked wallets.');
+    return;
+  }
+  const currentOwner = db.getWalletOwner(wallet);
+  if (currentOwner) {
+    await sendMessage(
+      chatId,
+      'This wallet is linked to another Telegram account. A wallet can only belong to one account, so completing verification will move it to you and remove the other account\'s access.',
+      { parseMode: undefined }
+    );
+  }
+  const groupId = user?.requestedGroupId || config.groupId || null;
+  const verificationMint = getVerificationMint(groupId);
+  if (!verificationMint) {
+    await sendMessage(chatId, 'The bot is missing token mint configuration. Please contact an admin.');
+    return;
+  }
   const expiresAt = new Date(Date.now() + VERIFICATION_WINDOW_MINUTES * 60 * 1000);
-  db.saveVerificationRequest(String(from.id), wallet, verificationAmount, expiresAt, config.groupId || null);
+  if (args[1]?.toLowerCase() === 'sign') {
+    if (!config.allowSignedMessageVerification) {
+      await sendMessage(chatId, 'Signed-message verification is not enabled on this bot. Use /verify <wallet> instead.', { parseMode: undefined });
+      return;
+    }
+    const challenge = buildSignatureChallenge(wallet, String(from.id), getVerificationNonce(), expiresAt);
+    db.saveVerificationRequest(String(from.id), wallet, challenge, expiresAt, groupId, 'signature');
+    const signInstructions = [
+      'Sign this exact message with your wallet\'s "sign message" feature:',
+      '```',
+      challenge,
+      '```',
+      'Then paste the base58 signature back here with /confirm <signature>.',
+      'No transaction is sent and no fees are paid. Never connect your wallet to a site claiming to be this bot.',
+      '',
+      `The challenge expires in ${VERIFICATION_WINDOW_MINUTES} minutes.`,
+    ].join('\n');
+    await sendMessage(chatId, signInstructions, { parseMode: 'Markdown' });
+    return;
+  }
+  if (config.verificationMode === 'memo') {
+    const nonce = getVerificationNonce();
+    db.saveVerificationRequest(String(from.id), wallet, nonce, expiresAt, groupId, 'memo');
+    const memoInstructions = [
+      'Your verification memo is:',
+      '```',
+      nonce,
+      '```',
+      `From \`${wallet}\`, send any small amount of SOL or of the SPL token \`${verificationMint}\` to the treasury wallet \`${config.treasuryWallet}\` and attach the memo above.`,
+      'Most wallets offer a "memo" field on the send screen.',
+      '',
+      `Once the transfer is confirmed on-chain you will be verified automatically. If nothing happens within a few minutes, run /confirm. This memo expires in ${VERIFICATION_WINDOW_MINUTES} minutes.`,
+    ].join('\n');
+    await sendMessage(chatId, memoInstructions, { parseMode: 'Markdown' });
+    return;
+  }
+  let decimals: number;
+  try {
+    ({ decimals } = await getMintInfo(verificationMint));
+  } catch (error) {
+    logger.error('Failed to load verification mint info', error);
+    await sendMessage(chatId, 'Could not load the token details right now. Please try /verify again in a moment.');
+    return;
+  }
+  const verificationAmount = getRandomVerificationAmount(decimals);
+  db.saveVerificationRequest(String(from.id), wallet, verificationAmount, expiresAt, groupId, 'amount');
   const instructions = [
     'Your verification amount is:',
     '```',
     `${verificationAmount} tokens`,
     '```',
-    `Send exactly this amount of the configured SPL token to the treasury wallet: \`${config.treasuryWallet}\`.`,
+    `Send exactly this amount of the SPL token \`${verificationMint}\` to the treasury wallet: \`${config.treasuryWallet}\`.`,
     '',
-    `Once the transfer is confirmed on-chain, run /confirm to finish. This code expires in ${VERIFICATION_WINDOW_MINUTES} minutes.`,
+    `Once the transfer is confirmed on-chain you will be verified automatically. If nothing happens within a few minutes, run /confirm. This code expires in ${VERIFICATION_WINDOW_MINUTES} minutes.`,
   ].join('\n');
   await sendMessage(chatId, instructions, { parseMode: 'Markdown' });
 }
@@ -142,19 +345,26 @@ function inviteExpirationNotice(): string {
   return `The invite link expires in ${config.inviteLinkTtlMinutes} minutes.`;
 }
 
-async function deliverInviteLink(userId: number, groupId: number): Promise<ChatInviteLink> {
+async function deliverInviteLink(
+  userId: number,
+  groupId: number,
+  intro = 'Verification successful! Tap the button below to enter the gated chat.'
+): Promise<ChatInviteLink> {
   const expireSeconds = config.inviteLinkTtlMinutes > 0 ? Math.max(60, Math.floor(config.inviteLinkTtlMinutes * 60)) : undefined;
+  const usesJoinRequest = config.admissionMode === 'join_request';
   const invite = await createChatInviteLink(groupId, {
     expireDate: expireSeconds ? Math.floor(Date.now() / 1000) + expireSeconds : undefined,
-    memberLimit: config.inviteLinkMemberLimit > 0 ? Math.floor(config.inviteLinkMemberLimit) : undefined,
-    createsJoinRequest: false,
+    // Telegram does not allow a member limit on links that create join requests.
+    memberLimit: !usesJoinRequest && config.inviteLinkMemberLimit > 0 ? Math.floor(config.inviteLinkMemberLimit) : undefined,
+    createsJoinRequest: usesJoinRequest,
     name: `SafeSol whale invite ${userId}`,
   });
   const expiresAt = invite.expire_date ? new Date(invite.expire_date * 1000) : undefined;
-  db.recordInviteLink(String(userId), invite.invite_link, expiresAt ?? null);
-  const lines = [
-    'Verification successful! Tap the button below to enter the gated chat.',
-  ];
+  db.recordInviteLink(String(userId), invite.invite_link, expiresAt ?? null, String(groupId));
+  const lines = [intro];
+  if (usesJoinRequest) {
+    lines.push('', 'Telegram will ask you to send a join request. I approve it automatically because your account is verified.');
+  }
   const expirationLine = inviteExpirationNotice();
   if (expirationLine) {
     lines.push('', expirationLine);
@@ -167,7 +377,231 @@ async function deliverInviteLink(userId: number, groupId: number): Promise<ChatI
   return invite;
 }
 
-async function handleConfirm(message: TelegramMessage): Promise<void> {
+/**
+ * Called after a wallet moved to another account. The previous owner keeps the
+ * chats their remaining wallets still qualify for and is removed from the rest,
+ * unless they are whitelisted or an admin, whom the sweep never removes either.
+ * Tier-linked chats are reconciled by the next sweep.
+ */
+async function revokePreviousWalletOwner(previous: UserRow, walletAddress: string, newOwner: UserRow): Promise<void> {
+  const telegramId = String(previous.telegramId);
+  const remainingWallets = getLinkedWalletAddresses(telegramId);
+  const isExempt = Boolean(previous.isWhitelisted) || isAdmin(telegramId);
+  const removedFrom: string[] = [];
+  for (const chatId of isExempt ? [] : getSweepChatIds(previous)) {
+    const rule = resolveRule(chatId);
+    try {
+      if (rule && remainingWallets.length && (await evaluateRule(rule, remainingWallets)).isQualified) {
+        continue;
+      }
+      if (chatId) {
+        await kickChatMember(Number(chatId), Number(previous.telegramId));
+        await unbanChatMember(Number(chatId), Number(previous.telegramId));
+        db.revokeAdmission(telegramId, chatId, 'wallet_reassigned');
+      }
+      removedFrom.push(chatId || 'the group');
+    } catch (error) {
+      logger.error(`Failed to revoke ${telegramId} from chat ${chatId} after wallet reassignment`, error);
+    }
+  }
+  try {
+    await sendMessage(
+      Number(previous.telegramId),
+      [
+        `Wallet ${walletAddress} was verified by another Telegram account, so it is no longer linked to yours.`,
+        removedFrom.length ? `Your remaining wallets do not qualify, so you were removed from: ${removedFrom.join(', ')}.` : '',
+        'If this was not you, contact an admin.',
+      ]
+        .filter(Boolean)
+        .join('\n'),
+      { parseMode: undefined }
+    );
+  } catch (error) {
+    logger.warn(`Failed to notify ${telegramId} about the reassignment of ${walletAddress}`, error);
+  }
+  await notifyAdmins(
+    [
+      `🔁 Wallet ${walletAddress} moved from ${formatUserIdentifier(previous)} (${previous.telegramId}) to ${formatUserIdentifier(newOwner)} (${newOwner.telegramId})`,
+      isExempt
+        ? 'Previous owner is whitelisted or an admin, so they were not removed from any chat.'
+        : removedFrom.length
+          ? `Previous owner removed from: ${removedFrom.join(', ')}`
+          : 'Previous owner still qualifies with their remaining wallets.',
+    ].join('\n')
+  );
+}
+
+/**
+ * Links a freshly proven wallet, re-evaluates the user's combined holdings and,
+ * if they qualify, admits them to the requested group.
+ */
+async function completeVerification(user: UserRow, replyChatId: number, rule: GatingRule, groupId: string): Promise<void> {
+  const telegramId = String(user.telegramId);
+  const previousOwners = db.linkWallet(telegramId, user.walletAddress);
+  db.clearVerification(telegramId);
+  for (const previous of previousOwners) {
+    await revokePreviousWalletOwner(previous, user.walletAddress, user);
+  }
+  let evaluation: RuleEvaluation;
+  try {
+    evaluation = await evaluateRule(rule, getLinkedWalletAddresses(telegramId));
+  } catch (error) {
+    logger.error(`Failed to check holdings for ${telegramId} after linking ${user.walletAddress}`, error);
+    await sendMessage(
+      replyChatId,
+      `We confirmed you control ${user.walletAddress} and linked it to your account, but could not check your holdings right now. Run /verify ${user.walletAddress} again in a moment to retry.`,
+      { parseMode: undefined }
+    );
+    return;
+  }
+  await admitIfQualified(user, replyChatId, rule, groupId, evaluation, `We confirmed you control ${user.walletAddress} and linked it to your account.`);
+}
+
+/** Re-evaluates an unverified user's already linked wallets, e.g. after they bought more tokens. */
+async function recheckLinkedWallets(user: UserRow, replyChatId: number): Promise<void> {
+  const telegramId = String(user.telegramId);
+  const groupId = user.requestedGroupId || config.groupId;
+  const rule = resolveRule(groupId);
+  if (!rule) {
+    await sendMessage(replyChatId, 'The bot is missing token mint configuration. Please contact an admin.');
+    return;
+  }
+  let evaluation: RuleEvaluation;
+  try {
+    evaluation = await evaluateRule(rule, getLinkedWalletAddresses(telegramId));
+  } catch (error) {
+    logger.error(`Failed to re-check linked wallets for ${telegramId}`, error);
+    await sendMessage(replyChatId, 'Could not check your holdings right now. Please try again in a moment.');
+    return;
+  }
+  await admitIfQualified(user, replyChatId, rule, groupId, evaluation, 'This wallet is already linked to your account, so your linked wallets were re-checked.');
+}
+
+async function admitIfQualified(
+  user: UserRow,
+  replyChatId: number,
+  rule: GatingRule,
+  groupId: string,
+  evaluation: RuleEvaluation,
+  intro: string
+): Promise<void> {
+  const telegramId = String(user.telegramId);
+  const userId = Number(user.telegramId);
+  const { ownership } = evaluation.primary;
+  db.updateWalletBalances(telegramId, ownership.wallets);
+  if (!evaluation.isQualified) {
+    await sendMessage(
+      replyChatId,
+      [
+        intro,
+        `Your combined holdings across ${ownership.wallets.length} wallet(s) do not meet the requirement of ${formatRule(rule)}:`,
+        formatEvaluation(evaluation),
+        'Link another wallet with /verify <wallet> to add its balance, or run /verify with a linked wallet again after topping up.',
+      ].join('\n'),
+      { parseMode: undefined }
+    );
+    return;
+  }
+  db.markVerified(telegramId, ownership.balance);
+  if (groupId) {
+    db.recordAdmission(telegramId, groupId);
+    const numericGroupId = Number(groupId);
+    let joinRequestApproved = false;
+    if (user.requestedGroupId) {
+      try {
+        await approveChatJoinRequest(numericGroupId, userId);
+        db.resolveJoinRequest(telegramId, groupId, 'approved');
+        joinRequestApproved = true;
+      } catch (approvalError) {
+        logger.warn('Failed to approve historical join request before issuing invite', approvalError);
+      }
+    }
+    if (joinRequestApproved && config.admissionMode === 'join_request') {
+      db.clearRequestedGroup(telegramId);
+      await sendMessage(replyChatId, 'Verification successful! Your pending join request has been approved.');
+      await notifyAdmins(
+        [
+          `✅ Verified ${formatUserIdentifier(user)} (${userId}) and approved their join request`,
+          `Wallets: ${ownership.wallets.map((wallet) => wallet.walletAddress).join(', ')}`,
+          `Balance: ${ownership.balance}`,
+        ].join('\n')
+      );
+      return;
+    }
+    let invite: ChatInviteLink | null = null;
+    try {
+      invite = await deliverInviteLink(userId, numericGroupId);
+    } catch (inviteError) {
+      logger.error('Failed to deliver invite link', inviteError);
+      await sendMessage(replyChatId, 'Verification succeeded but we could not generate an invite link. Please contact an admin.');
+      return;
+    } finally {
+      db.clearRequestedGroup(telegramId);
+    }
+    const latestUser = db.getUserByTelegramId(telegramId);
+    const adminLines = [
+      `✅ Verified ${formatUserIdentifier(latestUser)} (${userId})`,
+      `Wallets: ${ownership.wallets.map((wallet) => wallet.walletAddress).join(', ')}`,
+      `Balance: ${ownership.balance}`,
+    ];
+    if (invite) {
+      adminLines.push(`Invite link: ${invite.invite_link}`);
+    }
+    await notifyAdmins(adminLines.join('\n'));
+  } else {
+    await sendMessage(replyChatId, 'Verification successful! An admin will add you to the group shortly.');
+    await notifyAdmins(
+      [
+        `✅ Verified ${formatUserIdentifier(user)} (${userId})`,
+        `Wallets: ${ownership.wallets.map((wallet) => wallet.walletAddress).join(', ')}`,
+        `Balance: ${ownership.balance}`,
+      ].join('\n')
+    );
+  }
+}
+
+/** Consumes the matched signature so it can never satisfy another verification. */
+function claimTransfer(user: UserRow, transfer: MatchingTransfer): boolean {
+  const claimed = db.consumeSignature(String(user.telegramId), {
+    signature: transfer.signature,
+    walletAddress: user.walletAddress,
+    verificationMethod: user.verificationMethod,
+    asset: transfer.asset,
+    amount: transfer.treasuryDelta,
+    blockTime: transfer.blockTime,
+  });
+  if (claimed) {
+    db.recordRefund(String(user.telegramId), {
+      sourceSignature: transfer.signature,
+      walletAddress: user.walletAddress,
+      asset: transfer.asset,
+      amount: transfer.treasuryDelta,
+    });
+  }
+  return claimed;
+}
+
+async function handleTreasuryMatch(user: UserRow, transfer: MatchingTransfer): Promise<void> {
+  const groupId = user.requestedGroupId || config.groupId;
+  const rule = resolveRule(groupId);
+  if (!rule) {
+    logger.warn(`Treasury watcher matched ${transfer.signature} but no gating rule applies to ${groupId || 'the default group'}.`);
+    return;
+  }
+  if (!claimTransfer(user, transfer)) {
+    logger.warn(`Treasury watcher skipped ${transfer.signature}: signature already used for a verification.`);
+    return;
+  }
+  db.logEvent(user.telegramId, 'transfer_detected', { signature: transfer.signature, asset: transfer.asset, source: 'treasury_watcher' });
+  try {
+    await completeVerification(user, Number(user.telegramId), rule, groupId);
+  } catch (error) {
+    logger.error('Automatic verification failed', error);
+    await sendMessage(Number(user.telegramId), 'We detected your verification transfer but could not finish verifying. Please run /confirm.');
+  }
+}
+
+async function handleConfirm(message: TelegramMessage, args: string[]): Promise<void> {
   const chatId = message.chat.id;
   const from = message.from;
   if (!from) return;
@@ -180,7 +614,11 @@ async function handleConfirm(message: TelegramMessage): Promise<void> {
     await sendMessage(chatId, 'Please set your wallet address using /verify <wallet> first.');
     return;
   }
-  if (!config.tokenMint || !config.treasuryWallet) {
+  const groupId = user.requestedGroupId || config.groupId;
+  const rule = resolveRule(groupId);
+  const verificationMint = getVerificationMint(groupId);
+  const needsTransfer = user.verificationMethod !== 'signature';
+  if (!rule || (needsTransfer && (!verificationMint || !config.treasuryWallet))) {
     await sendMessage(chatId, 'The bot is missing token mint or treasury configuration. Please contact an admin.');
     return;
   }
@@ -193,63 +631,33 @@ async function handleConfirm(message: TelegramMessage): Promise<void> {
     }
   }
   try {
-    const transfer = await findMatchingTransfer({
-      userWallet: user.walletAddress,
-      treasuryWallet: config.treasuryWallet,
-      mint: config.tokenMint,
-      expectedAmount: user.verificationCode,
-    });
+    if (user.verificationMethod === 'signature') {
+      const signature = args[0];
+      if (!signature) {
+        await sendMessage(chatId, 'Paste the signature of the challenge message: /confirm <base58_signature>', { parseMode: undefined });
+        return;
+      }
+      if (!verifyWalletSignature(user.walletAddress, String(user.verificationCode), signature)) {
+        await sendMessage(
+          chatId,
+          'That signature does not match the challenge for this wallet. Make sure you signed the exact challenge text with the wallet you are verifying.',
+          { parseMode: undefined }
+        );
+        return;
+      }
+      await completeVerification(user, chatId, rule, groupId);
+      return;
+    }
+    const transfer = await findMatchingTransfer(buildTransferCriteria(user));
     if (!transfer) {
       await sendMessage(chatId, 'Could not find the matching transfer yet. Please wait a few moments and try /confirm again.');
       return;
     }
-    const ownership = await verifyOwnership({
-      walletAddress: user.walletAddress,
-      mint: config.tokenMint,
-      requiredPercent: config.requiredPercent,
-    });
-    if (!ownership.isQualified) {
-      await sendMessage(chatId, `We confirmed your transfer but your holdings (${formatPercent(ownership.percentOwned)}% of supply) are below the required threshold of ${formatPercent(config.requiredPercent)}%.`);
+    if (!claimTransfer(user, transfer)) {
+      await sendMessage(chatId, 'That transfer was already used for a verification. Please send a new transfer and try /confirm again.');
       return;
     }
-    db.markVerified(String(from.id), ownership.balance);
-    db.clearVerification(String(from.id));
-    const groupId = user.requestedGroupId || config.groupId;
-    if (groupId) {
-      const numericGroupId = Number(groupId);
-      if (user.requestedGroupId) {
-        try {
-          await approveChatJoinRequest(numericGroupId, from.id);
-        } catch (approvalError) {
-          logger.warn('Failed to approve historical join request before issuing invite', approvalError);
-        }
-      }
-      let invite: ChatInviteLink | null = null;
-      try {
-        invite = await deliverInviteLink(from.id, numericGroupId);
-      } catch (inviteError) {
-        logger.error('Failed to deliver invite link', inviteError);
-        await sendMessage(chatId, 'Verification succeeded but we could not generate an invite link. Please contact an admin.');
-        return;
-      } finally {
-        db.clearRequestedGroup(String(from.id));
-      }
-      const latestUser = db.getUserByTelegramId(String(from.id));
-      const adminLines = [
-        `✅ Verified ${formatUserIdentifier(latestUser)} (${from.id})`,
-        `Wallet: ${latestUser?.walletAddress ?? user.walletAddress}`,
-        `Balance: ${ownership.balance}`,
-      ];
-      if (invite) {
-        adminLines.push(`Invite link: ${invite.invite_link}`);
-      }
-      await notifyAdmins(adminLines.join('\n'));
-    } else {
-      await sendMessage(chatId, 'Verification successful! An admin will add you to the group shortly.');
-      await notifyAdmins(
-        [`✅ Verified ${formatUserIdentifier(user)} (${from.id})`, `Wallet: ${user.walletAddress}`, `Balance: ${ownership.balance}`].join('\n')
-      );
-    }
+    await completeVerification(user, chatId, rule, groupId);
   } catch (error) {
     logger.error('Verification failed', error);
     const messageText = error instanceof Error ? error.message : 'Unknown error';
@@ -267,7 +675,18 @@ async function handleStatus(message: TelegramMessage): Promise<void> {
     return;
   }
   const lines: string[] = [];
-  lines.push(`Wallet: ${user.walletAddress || 'Not set'}`);
+  const wallets = db.getLinkedWallets(String(from.id));
+  lines.push(`Linked wallets: ${wallets.length ? wallets.map((wallet) => wallet.walletAddress).join(', ') : 'None'}`);
+  const signatures = db.getUsedSignatures(String(from.id));
+  wallets.forEach((wallet) => {
+    const signature = getVerificationSignature(signatures, wallet.walletAddress);
+    if (signature) {
+      lines.push(`Verification transfer for ${wallet.walletAddress}: ${signature}`);
+    }
+  });
+  if (user.verificationCode && user.walletAddress) {
+    lines.push(`Wallet pending verification: ${user.walletAddress}`);
+  }
   lines.push(`Verified: ${user.verified ? 'Yes' : 'No'}`);
   if (user.lastBalance !== null && user.lastBalance !== undefined) {
     lines.push(`Last balance: ${user.lastBalance}`);
@@ -276,11 +695,196 @@ async function handleStatus(message: TelegramMessage): Promise<void> {
     lines.push(`Verified at: ${user.verifiedAt}`);
   }
   if (user.verificationCode) {
-    lines.push(`Pending verification amount: ${user.verificationCode}`);
+    const pendingLabel = user.verificationMethod === 'memo' ? 'memo' : user.verificationMethod === 'signature' ? 'challenge' : 'amount';
+    lines.push(`Pending verification ${pendingLabel}: ${user.verificationCode}`);
   }
+  db.getActiveAdmissions(String(from.id)).forEach((admission) => {
+    const tier = db.getCurrentTier(String(from.id), admission.chatId);
+    lines.push(`Group ${admission.chatId}: admitted${tier ? `, tier ${tier}` : ''}`);
+  });
   await sendMessage(chatId, lines.join('\n'));
 }
 
+async function handleWallets(message: TelegramMessage): Promise<void> {
+  const chatId = message.chat.id;
+  const from = message.from;
+  if (!from) return;
+  const wallets = db.getLinkedWallets(String(from.id));
+  if (!wallets.length) {
+    await sendMessage(chatId, 'You have no linked wallets. Use /verify <wallet> to link one.', { parseMode: undefined });
+    return;
+  }
+  const lines = ['Linked wallets:'];
+  wallets.forEach((wallet, index) => {
+    lines.push(`${index + 1}. ${formatWalletLine(wallet)}`);
+  });
+  lines.push('', 'Use /unlink <wallet> to remove a wallet.');
+  await sendMessage(chatId, lines.join('\n'), { parseMode: undefined });
+}
+
+/**
+ * Re-admits a user removed for low holdings once their already proven wallets
+ * qualify again. A cooldown from the removal, and from each failed attempt,
+ * keeps users near the threshold from flapping in and out.
+ */
+async function handleRejoin(message: TelegramMessage, args: string[]): Promise<void> {
+  const chatId = message.chat.id;
+  const from = message.from;
+  if (!from) return;
+  const telegramId = String(from.id);
+  const removals = db
+    .getAdmissions(telegramId)
+    .filter((admission) => admission.revokedAt && admission.revokeReason === 'low_holdings')
+    .filter((admission) => !args[0] || admission.chatId === args[0]);
+  if (!removals.length) {
+    await sendMessage(chatId, 'You have no removals for low holdings to recover from. Use /verify <wallet> to get started.', {
+      parseMode: undefined,
+    });
+    return;
+  }
+  if (removals.length > 1 && !args[0]) {
+    await sendMessage(
+      chatId,
+      ['You were removed from several chats. Pick one with /rejoin <chat_id>:', ...removals.map((admission) => `- ${admission.chatId}`)].join('\n'),
+      { parseMode: undefined }
+    );
+    return;
+  }
+  const removal = removals[0];
+  const wallets = getLinkedWalletAddresses(telegramId);
+  if (!wallets.length) {
+    await sendMessage(chatId, 'You have no linked wallets left. Verify a wallet with /verify <wallet> first.', { parseMode: undefined });
+    return;
+  }
+  const lastAttempt = removal.lastRejoinAttemptAt;
+  const cooldownStart = Math.max(new Date(removal.revokedAt).getTime(), lastAttempt ? new Date(lastAttempt).getTime() : 0);
+  const retryAt = cooldownStart + config.rejoinCooldownMinutes * 60 * 1000;
+  if (Date.now() < retryAt) {
+    const minutes = Math.ceil((retryAt - Date.now()) / 60000);
+    await sendMessage(chatId, `Please wait ${minutes} more minute(s) before trying /rejoin again.`, { parseMode: undefined });
+    return;
+  }
+  const rule = resolveRule(removal.chatId);
+  if (!rule) {
+    await sendMessage(chatId, 'This chat no longer has a gating rule. Please contact an admin.', { parseMode: undefined });
+    return;
+  }
+  let evaluation: RuleEvaluation;
+  try {
+    evaluation = await evaluateRule(rule, wallets);
+  } catch (error) {
+    logger.error('Rejoin holdings check failed', error);
+    await sendMessage(chatId, 'Could not check your holdings right now. Please try again in a moment.', { parseMode: undefined });
+    return;
+  }
+  db.updateWalletBalances(telegramId, evaluation.primary.ownership.wallets);
+  if (!evaluation.isQualified) {
+    db.recordRejoinAttempt(telegramId, removal.chatId);
+    db.logEvent(telegramId, 'rejoin_denied', { chatId: removal.chatId });
+    await sendMessage(
+      chatId,
+      [
+        'Your linked wallets still do not meet the requirement:',
+        formatEvaluation(evaluation),
+        `Required: ${formatRule(rule)}.`,
+        `You can try again in ${config.rejoinCooldownMinutes} minutes.`,
+      ].join('\n'),
+      { parseMode: undefined }
+    );
+    return;
+  }
+  try {
+    await deliverInviteLink(from.id, Number(removal.chatId), 'Welcome back! Your holdings qualify again. Tap the button below to rejoin.');
+  } catch (error) {
+    // The removal stays on record so the user can simply run /rejoin again.
+    logger.error('Failed to deliver rejoin invite link', error);
+    await sendMessage(chatId, 'You qualify again but we could not generate an invite link. Please try /rejoin again later or contact an admin.', {
+      parseMode: undefined,
+    });
+    return;
+  }
+  db.markVerified(telegramId, evaluation.primary.ownership.balance);
+  db.recordAdmission(telegramId, removal.chatId);
+  db.logEvent(telegramId, 'rejoined', { chatId: removal.chatId });
+  await notifyAdmins(
+    [
+      `↩️ ${formatUserIdentifier(db.getUserByTelegramId(telegramId))} (${telegramId}) requalified and was re-invited to ${removal.chatId}`,
+      `Balance: ${evaluation.primary.ownership.balance}`,
+    ].join('\n')
+  );
+}
+
+async function handleUnlink(message: TelegramMessage, args: string[]): Promise<void> {
+  const chatId = message.chat.id;
+  const from = message.from;
+  if (!from) return;
+  const wallet = sanitizeWallet(args[0]);
+  if (!wallet) {
+    await sendMessage(chatId, 'Usage: /unlink <wallet>', { parseMode: undefined });
+    return;
+  }
+  if (!db.unlinkWallet(String(from.id), wallet)) {
+    await sendMessage(chatId, `Wallet ${wallet} is not linked to your account.`, { parseMode: undefined });
+    return;
+  }
+  const remaining = db.getLinkedWallets(String(from.id)).length;
+  await sendMessage(
+    chatId,
+    `Unlinked ${wallet}. You have ${remaining} linked wallet(s) left. Your combined holdings will be re-checked during the next sweep.`,
+    { parseMode: undefined }
+  );
+}
+
+/** Resolves a numeric Telegram ID or `@username` to a Telegram ID. */
+function resolveTargetTelegramId(identifier: string): string | null {
+  if (!identifier.startsWith('@')) return identifier;
+  const match = db.findUserByUsername(identifier.slice(1));
+  return match ? String(match.telegramId) : null;
+}
+
+async function handleTransferWallet(message: TelegramMessage, args: string[]): Promise<void> {
+  const from = message.from;
+  if (!from) return;
+  if (!isAdmin(String(from.id))) {
+    await sendMessage(message.chat.id, 'You are not authorized to use this command.');
+    return;
+  }
+  const wallet = sanitizeWallet(args[0]);
+  if (!wallet || !args[1]) {
+    await sendMessage(message.chat.id, 'Usage: /transferwallet <wallet> <telegram_id|@username>', { parseMode: undefined });
+    return;
+  }
+  const targetId = resolveTargetTelegramId(args[1]);
+  if (!targetId) {
+    await sendMessage(message.chat.id, `Could not find a user with username ${args[1]}.`, { parseMode: undefined });
+    return;
+  }
+  const target = db.upsertUser(targetId);
+  if (getLinkedWalletAddresses(targetId).includes(wallet)) {
+    await sendMessage(message.chat.id, `${wallet} is already linked to ${formatUserIdentifier(target)}.`, { parseMode: undefined });
+    return;
+  }
+  const previousOwners = db.linkWallet(targetId, wallet);
+  db.logEvent(targetId, 'wallet_override', { walletAddress: wallet, adminId: String(from.id) });
+  for (const previous of previousOwners) {
+    await revokePreviousWalletOwner(previous, wallet, target);
+  }
+  try {
+    await sendMessage(
+      Number(targetId),
+      `An admin linked wallet ${wallet} to your account. It will count towards your holdings from the next check.`,
+      { parseMode: undefined }
+    );
+  } catch (error) {
+    logger.warn(`Failed to notify ${targetId} about the wallet override`, error);
+  }
+  await sendMessage(
+    message.chat.id,
+    `Linked ${wallet} to ${formatUserIdentifier(target)} (${targetId})${previousOwners.length ? `, removing it from ${previousOwners.map((previous) => previous.telegramId).join(', ')}` : ''}.`,
+    { parseMode: undefined }
+  );
+}
+
 async function handleWhitelist(message: TelegramMessage, args: string[]): Promise<void> {
   const from = message.from;
   if (!from) return;
@@ -293,72 +897,530 @@ async function handleWhitelist(message: TelegramMessage, args: string[]): Promis
     await sendMessage(message.chat.id, 'Usage: /whitelist <telegram_id|@username>');
     return;
   }
-  let targetId = args[0];
-  if (targetId.startsWith('@')) {
-    targetId = targetId.slice(1);
-    const match = db.findUserByUsername(targetId);
-    if (match) {
-      targetId = String(match.telegramId);
-    } else {
-      await sendMessage(message.chat.id, `Could not find a user with username @${targetId}.`);
-      return;
-    }
-  }
-  db.setWhitelist(String(targetId), true);
-  const user = db.getUserByTelegramId(String(targetId));
-  if (user && user.requestedGroupId) {
-    try {
-      await approveChatJoinRequest(Number(user.requestedGroupId), Number(user.telegramId));
-      await sendMessage(Number(user.telegramId), 'An admin added you to the whitelist and you have been approved to join.');
-      db.clearRequestedGroup(String(user.telegramId));
-    } catch (error) {
-      logger.error('Failed to approve whitelisted user', error);
-    }
+  const targetId = resolveTargetTelegramId(args[0]);
+  if (!targetId) {
+    await sendMessage(message.chat.id, `Could not find a user with username ${args[0]}.`);
+    return;
   }
+  await setUserWhitelist(String(targetId), true);
   await sendMessage(message.chat.id, `Whitelisted user ${targetId}.`);
 }
 
-async function handleAudit(message: TelegramMessage): Promise<void> {
+/** Whitelisting also approves the user's pending join request, if any. */
+async function setUserWhitelist(telegramId: string, isWhitelisted: boolean): Promise<void> {
+  db.setWhitelist(telegramId, isWhitelisted);
+  const user = db.getUserByTelegramId(telegramId);
+  if (!isWhitelisted || !user?.requestedGroupId) return;
+  try {
+    await approveChatJoinRequest(Number(user.requestedGroupId), Number(user.telegramId));
+    db.resolveJoinRequest(String(user.telegramId), user.requestedGroupId, 'approved');
+    await sendMessage(Number(user.telegramId), 'An admin added you to the whitelist and you have been approved to join.');
+    db.clearRequestedGroup(String(user.telegramId));
+  } catch (error) {
+    logger.error('Failed to approve whitelisted user', error);
+  }
+}
+
+function resolveRuleChatId(value: string | undefined): string | null {
+  if (!value) return null;
+  if (value.toLowerCase() === 'default') {
+    return config.groupId || null;
+  }
+  return /^-?\d+$/.test(value) ? value : null;
+}
+
+async function handleSetRule(message: TelegramMessage, args: string[]): Promise<void> {
   const from = message.from;
   if (!from) return;
   if (!isAdmin(String(from.id))) {
     await sendMessage(message.chat.id, 'You are not authorized to use this command.');
     return;
   }
-  const verifiedUsers = db.getVerifiedUsers();
-  const pendingUsers = db.getPendingUsers();
-  if (!verifiedUsers.length && !pendingUsers.length) {
-    await sendMessage(message.chat.id, 'No whales have verified yet.');
+  const usage = [
+    'Usage: /setrule <chat_id|default> [all|any] <mint>:<threshold> [<mint>:<threshold> ...]',
+    'Thresholds ending in % are a percent of supply (e.g. 0.1%), plain numbers are token amounts.',
+    '"all" requires every condition (default), "any" requires at least one.',
+  ].join('\n');
+  const chatId = resolveRuleChatId(args[0]);
+  let specs = args.slice(1);
+  if (!chatId || !specs.length) {
+    await sendMessage(message.chat.id, usage, { parseMode: undefined });
     return;
   }
-  const sortedVerified = [...verifiedUsers].sort((a, b) => {
-    const aBalance = a.lastBalance ?? 0;
-    const bBalance = b.lastBalance ?? 0;
-    return bBalance - aBalance;
+  let operator: RuleOperator = 'and';
+  const operatorArg = specs[0].toLowerCase();
+  if (['all', 'and', 'any', 'or'].includes(operatorArg)) {
+    operator = operatorArg === 'any' || operatorArg === 'or' ? 'or' : 'and';
+    specs = specs.slice(1);
+  }
+  const conditions: GatingCondition[] = [];
+  for (const spec of specs) {
+    const condition = parseConditionSpec(spec);
+    if (!condition) {
+      await sendMessage(message.chat.id, `Invalid condition "${spec}".\n\n${usage}`, { parseMode: undefined });
+      return;
+    }
+    conditions.push(condition);
+  }
+  if (!conditions.length) {
+    await sendMessage(message.chat.id, usage, { parseMode: undefined });
+    return;
+  }
+  const previous = resolveRule(chatId);
+  saveRule(chatId, operator, conditions);
+  db.logEvent(String(from.id), 'gating_rule_updated', {
+    adminId: String(from.id),
+    chatId,
+    operator,
+    conditions,
+    previous: previous ? { operator: previous.operator, conditions: previous.conditions, isDefault: previous.isDefault } : null,
   });
+  const rule = resolveRule(chatId);
+  await sendMessage(message.chat.id, `Saved rule for chat ${chatId}: ${rule ? formatRule(rule) : 'n/a'}`, { parseMode: undefined });
+}
+
+async function handleRules(message: TelegramMessage): Promise<void> {
+  const from = message.from;
+  if (!from) return;
+  if (!isAdmin(String(from.id))) {
+    await sendMessage(message.chat.id, 'You are not authorized to use this command.');
+    return;
+  }
+  const rules = getRules();
   const lines: string[] = [];
-  lines.push(`Verified whales: ${sortedVerified.length}`);
-  lines.push(`Pending verifications: ${pendingUsers.length}`);
-  lines.push('');
-  sortedVerified.forEach((user, index) => {
-    lines.push(formatAuditLine(user, index));
-    lines.push('');
+  rules.forEach((rule) => {
+    lines.push(`${rule.chatId}${rule.chatId === config.groupId ? ' (default group)' : ''}: ${formatRule(rule)}`);
   });
-  if (pendingUsers.length) {
-    lines.push('Pending users:');
-    pendingUsers.forEach((user) => {
-      lines.push(
-        `- ${formatUserIdentifier(user)} — wallet: ${user.walletAddress ?? 'n/a'}, requested group: ${user.requestedGroupId ?? 'n/a'}`
-      );
-    });
+  const fallback = resolveRule(config.groupId);
+  if (fallback?.isDefault) {
+    lines.push(`${config.groupId || 'default'} (from .env): ${formatRule(fallback)}`);
   }
-  const messageChunks = chunkLines(lines.filter(Boolean));
-  for (const chunk of messageChunks) {
-    await sendMessage(message.chat.id, chunk, { parseMode: undefined });
+  if (!lines.length) {
+    await sendMessage(message.chat.id, 'No gating rules configured. Use /setrule to add one.', { parseMode: undefined });
+    return;
   }
+  await sendMessage(message.chat.id, ['Gating rules:', ...lines].join('\n'), { parseMode: undefined });
 }
 
-async function handleMessage(message: TelegramMessage): Promise<void> {
+async function handleDeleteRule(message: TelegramMessage, args: string[]): Promise<void> {
+  const from = message.from;
+  if (!from) return;
+  if (!isAdmin(String(from.id))) {
+    await sendMessage(message.chat.id, 'You are not authorized to use this command.');
+    return;
+  }
+  const chatId = resolveRuleChatId(args[0]);
+  if (!chatId) {
+    await sendMessage(message.chat.id, 'Usage: /delrule <chat_id|default>', { parseMode: undefined });
+    return;
+  }
+  const previous = resolveRule(chatId);
+  if (!previous || previous.isDefault || !deleteRule(chatId)) {
+    await sendMessage(message.chat.id, `No persisted rule found for chat ${chatId}.`, { parseMode: undefined });
+    return;
+  }
+  db.logEvent(String(from.id), 'gating_rule_deleted', {
+    adminId: String(from.id),
+    chatId,
+    previous: { operator: previous.operator, conditions: previous.conditions },
+  });
+  const fallback = resolveRule(chatId);
+  await sendMessage(
+    message.chat.id,
+    `Deleted rule for chat ${chatId}.${fallback ? ` It now falls back to the .env default: ${formatRule(fallback)}` : ''}`,
+    { parseMode: undefined }
+  );
+}
+
+const REFUNDS_USAGE = [
+  'Usage:',
+  '/refunds – pending refunds and open batches',
+  '/refunds export [csv|json] – move all pending refunds into a new batch and export it',
+  '/refunds batch <batch_id> [csv|json] – export an existing batch again',
+  '/refunds paid <batch_id> <signature> [signature ...] – mark a batch as paid, one signature for the whole batch or one per row in export order',
+].join('\n');
+
+async function sendRefundBatch(chatId: number, batchId: string, format: string | undefined): Promise<void> {
+  const exportFormat = parseExportFormat(format);
+  if (!exportFormat) {
+    await sendMessage(chatId, 'Export format must be csv or json.', { parseMode: undefined });
+    return;
+  }
+  const rows = db.getRefundBatch(batchId);
+  if (!rows.length) {
+    await sendMessage(chatId, `No refunds found in batch ${batchId}.`, { parseMode: undefined });
+    return;
+  }
+  const totals = summarizeRefunds(rows).map((total) => `${total.total} ${total.asset} (${total.count})`);
+  await sendMessage(chatId, [`Refund batch ${batchId}: ${rows.length} refund(s)`, ...totals].join('\n'), { parseMode: undefined });
+  await sendDocument(chatId, formatRefundBatch(rows, exportFormat), {
+    filename: `${batchId}.${exportFormat}`,
+    contentType: getExportContentType(exportFormat),
+    caption: `Refund batch ${batchId}`,
+  });
+}
+
+async function handleRefunds(message: TelegramMessage, args: string[]): Promise<void> {
+  const from = message.from;
+  if (!from) return;
+  if (!isAdmin(String(from.id))) {
+    await sendMessage(message.chat.id, 'You are not authorized to use this command.');
+    return;
+  }
+  const [action, ...rest] = args;
+  switch ((action || '').toLowerCase()) {
+    case '': {
+      const pending = db.getRefundsByStatus('pending');
+      const exported = db.getRefundsByStatus('exported');
+      const batchIds = Array.from(new Set(exported.map((row) => row.batchId)));
+      const lines = [
+        `Pending refunds: ${pending.length}`,
+        ...summarizeRefunds(pending).map((total) => `- ${total.total} ${total.asset} (${total.count})`),
+        `Exported, awaiting payment: ${batchIds.length ? batchIds.join(', ') : 'none'}`,
+        '',
+        REFUNDS_USAGE,
+      ];
+      await sendMessage(message.chat.id, lines.join('\n'), { parseMode: undefined });
+      return;
+    }
+    case 'export': {
+      if (!parseExportFormat(rest[0])) {
+        await sendMessage(message.chat.id, 'Export format must be csv or json.', { parseMode: undefined });
+        return;
+      }
+      const batchId = createBatchId();
+      if (!db.createRefundBatch(batchId).length) {
+        await sendMessage(message.chat.id, 'No pending refunds to export.', { parseMode: undefined });
+        return;
+      }
+      db.logEvent(String(from.id), 'refund_batch_exported', { batchId });
+      await sendRefundBatch(message.chat.id, batchId, rest[0]);
+      return;
+    }
+    case 'batch':
+      if (!rest[0]) break;
+      await sendRefundBatch(message.chat.id, rest[0], rest[1]);
+      return;
+    case 'paid': {
+      const [batchId, ...signatures] = rest;
+      if (!batchId || !signatures.length) break;
+      const invalid = signatures.filter((signature) => !isTransactionSignature(signature));
+      if (invalid.length) {
+        await sendMessage(message.chat.id, `Not valid transaction signatures: ${invalid.join(', ')}`, { parseMode: undefined });
+        return;
+      }
+      const unpaid = db.getRefundBatch(batchId).filter((row) => row.status === 'exported');
+      if (!unpaid.length) {
+        await sendMessage(message.chat.id, `Batch ${batchId} has no unpaid refunds.`, { parseMode: undefined });
+        return;
+      }
+      if (signatures.length !== 1 && signatures.length !== unpaid.length) {
+        await sendMessage(
+          message.chat.id,
+          `Batch ${batchId} has ${unpaid.length} unpaid refund(s). Supply one signature for the whole batch or exactly one per refund.`,
+          { parseMode: undefined }
+        );
+        return;
+      }
+      db.markRefundBatchPaid(batchId, signatures);
+      db.logEvent(String(from.id), 'refund_batch_paid', { batchId, refundSignatures: signatures });
+      await sendMessage(message.chat.id, `Marked ${unpaid.length} refund(s) in ${batchId} as paid.`, { parseMode: undefined });
+      return;
+    }
+    default:
+      break;
+  }
+  await sendMessage(message.chat.id, REFUNDS_USAGE, { parseMode: undefined });
+}
+
+/**
+ * Bots cannot list chat members, so /scan checks every account the bot has
+ * seen. Anyone who never interacted with the bot is invisible to it.
+ */
+async function handleScan(message: TelegramMessage, args: string[]): Promise<void> {
+  const from = message.from;
+  if (!from) return;
+  if (!isAdmin(String(from.id))) {
+    await sendMessage(message.chat.id, 'You are not authorized to use this command.');
+    return;
+  }
+  const remove = args.some((arg) => arg.toLowerCase() === 'remove');
+  const chatArg = args.find((arg) => arg.toLowerCase() !== 'remove');
+  const chatIds = chatArg ? [chatArg] : Array.from(new Set([...getGatedChatIds(), ...getTierChatIds()]));
+  if (!chatIds.length) {
+    await sendMessage(message.chat.id, 'No gated chats configured.', { parseMode: undefined });
+    return;
+  }
+  const users = db.getAllUsers();
+  const lines: string[] = [`Checked ${users.length} account(s) known to the bot.`];
+  for (const chatId of chatIds) {
+    const candidates = users.filter((user) => !isVerifiedMember(String(user.telegramId), chatId));
+    const found: string[] = [];
+    for (const user of candidates) {
+      const telegramId = String(user.telegramId);
+      try {
+        const member = await getChatMember(Number(chatId), Number(telegramId));
+        if (!ACTIVE_MEMBER_STATUSES.includes(member.status)) continue;
+        if (remove) {
+          await removeUnverifiedMember(telegramId, chatId, 'scan');
+        }
+        found.push(`- ${formatUserIdentifier(user)} (${telegramId})${remove ? ' removed' : ''}`);
+      } catch (error) {
+        // Telegram answers "user not found" for accounts that were never in the chat.
+        logger.warn(`Scan could not check ${telegramId} in ${chatId}`, error);
+      }
+    }
+    lines.push('', `Chat ${chatId}: ${found.length} unverified member(s) among ${candidates.length} unverified account(s)`, ...found);
+  }
+  if (!remove) {
+    lines.push('', 'Run /scan [chat_id] remove to remove them.');
+  }
+  db.logEvent(String(from.id), 'member_scan', { chatIds, remove });
+  for (const chunk of chunkLines(lines)) {
+    await sendMessage(message.chat.id, chunk, { parseMode: undefined });
+  }
+}
+
+function shortenValue(value: string): string {
+  return value.length > 20 ? `${value.slice(0, 8)}…${value.slice(-8)}` : value;
+}
+
+function formatEventDetails(event: VerificationEvent): string {
+  switch (event.type) {
+    case 'verification_requested':
+      return `${event.payload.verificationMethod ?? 'amount'} verification for ${event.payload.walletAddress}`;
+    case 'verified':
+      return `balance ${event.payload.balance}`;
+    case 'wallet_linked':
+    case 'wallet_unlinked':
+      return event.payload.walletAddress;
+    case 'wallet_reassigned':
+      return `${event.payload.walletAddress} moved to ${event.payload.newOwnerTelegramId}`;
+    case 'wallet_override':
+      return `${event.payload.walletAddress} assigned by admin ${event.payload.adminId}`;
+    case 'signature_consumed':
+    case 'signature_replay_rejected':
+    case 'transfer_detected':
+      return `tx ${shortenValue(event.payload.signature)}`;
+    case 'membership_changed':
+      return `${event.payload.chatId}: ${event.payload.from ?? 'none'} → ${event.payload.to}`;
+    case 'admission_revoked':
+    case 'unverified_member_removed':
+      return `${event.payload.chatId} (${event.payload.reason})`;
+    case 'tier_changed':
+      return `${event.payload.chatId}: ${event.payload.previousTier ?? 'none'} → ${event.payload.newTier ?? 'none'}`;
+    case 'ownership_revoked':
+      return `${event.payload.chatId} at ${formatPercent(event.payload.percentOwned)}% of supply`;
+    case 'grace_started':
+      return `until ${event.payload.deadline}`;
+    case 'refund_queued':
+      return `${event.payload.amount} ${event.payload.asset}`;
+    default:
+      return Object.entries(event.payload ?? {})
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([key, value]) => `${key}=${typeof value === 'string' ? shortenValue(value) : JSON.stringify(value)}`)
+        .join(', ');
+  }
+}
+
+function formatHistoryLine(event: VerificationEventRecord): string {
+  const details = formatEventDetails(event);
+  return `${event.createdAt.slice(0, 16)} ${event.type}${details ? ` — ${details}` : ''}`;
+}
+
+async function handleHistory(message: TelegramMessage, args: string[]): Promise<void> {
+  const from = message.from;
+  if (!from) return;
+  if (!isAdmin(String(from.id))) {
+    await sendMessage(message.chat.id, 'You are not authorized to use this command.');
+    return;
+  }
+  const usage = 'Usage: /history <telegram_id|@username> [event_type ...] [from YYYY-MM-DD] [to YYYY-MM-DD]';
+  if (!args[0]) {
+    await sendMessage(message.chat.id, usage, { parseMode: undefined });
+    return;
+  }
+  const targetId = resolveTargetTelegramId(args[0]);
+  if (!targetId) {
+    await sendMessage(message.chat.id, `Could not find a user with username ${args[0]}.`, { parseMode: undefined });
+    return;
+  }
+  const types: VerificationEventType[] = [];
+  const dates: Date[] = [];
+  for (const arg of args.slice(1)) {
+    const date = parseDay(arg);
+    if (date) {
+      dates.push(date);
+    } else if (isEventType(arg.toLowerCase())) {
+      types.push(arg.toLowerCase() as VerificationEventType);
+    } else {
+      await sendMessage(message.chat.id, `Unknown event type or date "${arg}".\n\n${usage}`, { parseMode: undefined });
+      return;
+    }
+  }
+  const events = db.queryEvents({ telegramId: targetId, types, ...toDayRange(dates[0], dates[1]), limit: HISTORY_EVENT_LIMIT });
+  const target = db.getUserByTelegramId(targetId);
+  if (!events.length) {
+    await sendMessage(message.chat.id, `No matching events for ${formatUserIdentifier(target)}.`, { parseMode: undefined });
+    return;
+  }
+  const lines = [
+    `History for ${formatUserIdentifier(target)} (${targetId}), times in UTC:`,
+    ...(events.length === HISTORY_EVENT_LIMIT ? [`Showing the latest ${HISTORY_EVENT_LIMIT} events; narrow the range to see older ones.`] : []),
+    ...[...events].reverse().map(formatHistoryLine),
+  ];
+  for (const chunk of chunkLines(lines)) {
+    await sendMessage(message.chat.id, chunk, { parseMode: undefined });
+  }
+}
+
+async function handleExport(message: TelegramMessage, args: string[]): Promise<void> {
+  const from = message.from;
+  if (!from) return;
+  if (!isAdmin(String(from.id))) {
+    await sendMessage(message.chat.id, 'You are not authorized to use this command.');
+    return;
+  }
+  const usage = 'Usage: /export members|events|invites [csv|json] [from YYYY-MM-DD] [to YYYY-MM-DD]';
+  const kind = parseExportKind(args[0]);
+  if (!kind) {
+    await sendMessage(message.chat.id, usage, { parseMode: undefined });
+    return;
+  }
+  let formatArg: string | undefined;
+  const dates: Date[] = [];
+  for (const arg of args.slice(1)) {
+    const date = parseDay(arg);
+    if (date) {
+      dates.push(date);
+    } else if (!formatArg && parseExportFormat(arg)) {
+      formatArg = arg;
+    } else {
+      await sendMessage(message.chat.id, `Unknown format or date "${arg}".\n\n${usage}`, { parseMode: undefined });
+      return;
+    }
+  }
+  const range = toDayRange(dates[0], dates[1]);
+  if (range.since && range.until && range.since >= range.until) {
+    await sendMessage(message.chat.id, 'The start date must not be after the end date.', { parseMode: undefined });
+    return;
+  }
+  const file = buildExport(kind, parseExportFormat(formatArg), range);
+  if (!file.rowCount) {
+    await sendMessage(message.chat.id, `No ${kind} found in that range.`, { parseMode: undefined });
+    return;
+  }
+  await sendDocument(message.chat.id, file.content, {
+    filename: file.filename,
+    contentType: file.contentType,
+    caption: `${file.rowCount} ${kind} row(s)`,
+  });
+}
+
+function formatSnapshot(snapshot: BalanceSnapshotRow): string {
+  return `${snapshot.balance} (${formatPercent(snapshot.percentOwned)}%) on ${snapshot.createdAt.slice(0, 10)}`;
+}
+
+async function handleTrend(message: TelegramMessage, args: string[]): Promise<void> {
+  const from = message.from;
+  if (!from) return;
+  if (!isAdmin(String(from.id))) {
+    await sendMessage(message.chat.id, 'You are not authorized to use this command.');
+    return;
+  }
+  const usage = 'Usage: /trend <telegram_id|@username> [days]';
+  const days = args[1] ? Number(args[1]) : DEFAULT_TREND_DAYS;
+  if (!args[0] || !Number.isInteger(days) || days <= 0) {
+    await sendMessage(message.chat.id, usage, { parseMode: undefined });
+    return;
+  }
+  const targetId = resolveTargetTelegramId(args[0]);
+  if (!targetId) {
+    await sendMessage(message.chat.id, `Could not find a user with username ${args[0]}.`, { parseMode: undefined });
+    return;
+  }
+  const target = db.getUserByTelegramId(targetId);
+  const snapshots = db.getBalanceSnapshots(targetId, { since: new Date(Date.now() - days * DAY_MS) });
+  if (!snapshots.length) {
+    await sendMessage(message.chat.id, `No balance snapshots for ${formatUserIdentifier(target)} in the last ${days} day(s).`, {
+      parseMode: undefined,
+    });
+    return;
+  }
+  const byMint = new Map<string, BalanceSnapshotRow[]>();
+  snapshots.forEach((snapshot) => byMint.set(snapshot.mint, [...(byMint.get(snapshot.mint) ?? []), snapshot]));
+  const lines = [`Holdings trend for ${formatUserIdentifier(target)} (${targetId}) over the last ${days} day(s):`];
+  byMint.forEach((rows, mint) => {
+    const trend = toTrend({ telegramId: targetId, mint, first: rows[0], last: rows[rows.length - 1] });
+    const sign = trend.percentChange > 0 ? '+' : '';
+    lines.push(
+      '',
+      `Mint ${mint}:`,
+      `Change: ${trend.balanceChange} tokens (${sign}${formatPercent(trend.percentChange)}% of supply)`,
+      `From ${formatSnapshot(trend.from)}`,
+      `To ${formatSnapshot(trend.to)}`,
+      `Daily: ${sparkline(downsampleDaily(rows).map((row) => row.percentOwned))}`
+    );
+  });
+  for (const chunk of chunkLines(lines)) {
+    await sendMessage(message.chat.id, chunk, { parseMode: undefined });
+  }
+}
+
+async function handleAudit(message: TelegramMessage): Promise<void> {
+  const from = message.from;
+  if (!from) return;
+  if (!isAdmin(String(from.id))) {
+    await sendMessage(message.chat.id, 'You are not authorized to use this command.');
+    return;
+  }
+  const verifiedUsers = db.getVerifiedUsers();
+  const pendingUsers = db.getPendingUsers();
+  if (!verifiedUsers.length && !pendingUsers.length) {
+    await sendMessage(message.chat.id, ['No whales have verified yet.', '', ...formatRpcMetricsLines()].join('\n'), {
+      parseMode: undefined,
+    });
+    return;
+  }
+  const sortedVerified = [...verifiedUsers].sort((a, b) => {
+    const aBalance = a.lastBalance ?? 0;
+    const bBalance = b.lastBalance ?? 0;
+    return bBalance - aBalance;
+  });
+  const lines: string[] = [];
+  const absentCount = sortedVerified.filter((user) => !getPresentChatIds(String(user.telegramId)).length).length;
+  lines.push(`Verified whales: ${sortedVerified.length} (${sortedVerified.length - absentCount} in a tracked chat, ${absentCount} verified only)`);
+  lines.push(`Pending verifications: ${pendingUsers.length}`);
+  lines.push('');
+  sortedVerified.forEach((user, index) => {
+    lines.push(formatAuditLine(user, index));
+    lines.push('');
+  });
+  const unverifiedMembers = getGatedChatIds().flatMap((chatId) =>
+    db
+      .getChatMembers(chatId)
+      .filter((member) => !isVerifiedMember(member.telegramId, chatId))
+      .map((member) => `- ${formatUserIdentifier(db.getUserByTelegramId(member.telegramId))} (${member.telegramId}) in ${chatId}`)
+  );
+  if (unverifiedMembers.length) {
+    lines.push('In a gated chat but not verified:', ...unverifiedMembers, '');
+  }
+  if (pendingUsers.length) {
+    lines.push('Pending users:');
+    pendingUsers.forEach((user) => {
+      lines.push(
+        `- ${formatUserIdentifier(user)} — pending wallet: ${user.walletAddress ?? 'n/a'}, requested group: ${user.requestedGroupId ?? 'n/a'}`
+      );
+    });
+  }
+  lines.push(...formatRpcMetricsLines());
+  const messageChunks = chunkLines(lines.filter(Boolean));
+  for (const chunk of messageChunks) {
+    await sendMessage(message.chat.id, chunk, { parseMode: undefined });
+  }
+}
+
+async function handleMessage(message: TelegramMessage): Promise<void> {
   if (!message.text) return;
   const text = message.text.trim();
   if (!text.startsWith('/')) return;
@@ -371,21 +1433,57 @@ async function handleMessage(message: TelegramMessage): Promise<void> {
       await handleVerify(message, rest);
       break;
     case '/confirm':
-      await handleConfirm(message);
+      await handleConfirm(message, rest);
       break;
     case '/status':
       await handleStatus(message);
       break;
+    case '/wallets':
+      await handleWallets(message);
+      break;
+    case '/rejoin':
+      await handleRejoin(message, rest);
+      break;
+    case '/unlink':
+      await handleUnlink(message, rest);
+      break;
     case '/whitelist':
       await handleWhitelist(message, rest);
       break;
+    case '/transferwallet':
+      await handleTransferWallet(message, rest);
+      break;
+    case '/refunds':
+      await handleRefunds(message, rest);
+      break;
+    case '/scan':
+      await handleScan(message, rest);
+      break;
+    case '/history':
+      await handleHistory(message, rest);
+      break;
+    case '/export':
+      await handleExport(message, rest);
+      break;
+    case '/trend':
+      await handleTrend(message, rest);
+      break;
     case '/audit':
       await handleAudit(message);
       break;
+    case '/setrule':
+      await handleSetRule(message, rest);
+      break;
+    case '/rules':
+      await handleRules(message);
+      break;
+    case '/delrule':
+      await handleDeleteRule(message, rest);
+      break;
     default:
       await sendMessage(
         message.chat.id,
-        'Unknown command. Available commands: /start, /verify, /confirm, /status, /whitelist, /audit.'
+        'Unknown command. Available commands: /start, /verify, /confirm, /status, /wallets, /rejoin, /unlink, /whitelist, /transferwallet, /refunds, /scan, /history, /export, /trend, /audit, /setrule, /rules, /delrule.'
       );
   }
 }
@@ -395,34 +1493,558 @@ async function handleChatJoinRequest(request: TelegramChatJoinRequest): Promise<
   const username = request.from.username || request.from.first_name || '';
   db.setRequestedGroup(userId, String(request.chat.id));
   db.upsertUser(userId, username);
+  db.recordJoinRequest(userId, String(request.chat.id));
   const user = db.getUserByTelegramId(userId);
   if (user && user.isWhitelisted) {
     await approveChatJoinRequest(request.chat.id, request.from.id);
+    db.resolveJoinRequest(userId, String(request.chat.id), 'approved');
     await sendMessage(request.from.id, 'You are whitelisted and have been approved to join the group.');
     db.clearRequestedGroup(userId);
     return;
   }
+  const rule = resolveRule(request.chat.id);
+  const wallets = getLinkedWalletAddresses(userId);
+  if (user && user.verified && rule && wallets.length) {
+    try {
+      const evaluation = await evaluateRule(rule, wallets);
+      if (evaluation.isQualified) {
+        await approveChatJoinRequest(request.chat.id, request.from.id);
+        db.resolveJoinRequest(userId, String(request.chat.id), 'approved');
+        db.recordAdmission(userId, String(request.chat.id));
+        db.clearRequestedGroup(userId);
+        await sendMessage(request.from.id, 'Your linked wallets meet this group\'s requirements and you have been approved to join.');
+        return;
+      }
+    } catch (error) {
+      logger.warn(`Failed to evaluate gating rule for join request from ${userId}`, error);
+    }
+  }
   const messageLines = [
     `Hi ${request.from.first_name || 'there'}!`,
     'To join the group you must verify token ownership.',
     '',
     'Please start a private chat with me and run /start followed by /verify <wallet_address>.',
-    'Once verified, I will send you a single-use invite button.',
+    config.admissionMode === 'join_request'
+      ? 'Once verified, I will approve this join request automatically.'
+      : 'Once verified, I will send you a single-use invite button.',
     `Treasury wallet: \`${config.treasuryWallet}\``,
   ];
+  if (rule) {
+    messageLines.push(`Requirement: ${formatRule(rule)}`);
+  }
+  if (config.joinRequestTimeoutMinutes > 0) {
+    messageLines.push(`Unverified join requests are declined after ${config.joinRequestTimeoutMinutes} minutes.`);
+  }
   await sendMessage(request.from.id, messageLines.join('\n'), { parseMode: 'Markdown' });
 }
 
+/**
+ * Declines join requests whose requester did not verify within
+ * JOIN_REQUEST_TIMEOUT_MINUTES. Verified and whitelisted requesters are left
+ * for the admission flow or an admin to decide.
+ */
+async function declineExpiredJoinRequests(): Promise<void> {
+  if (config.joinRequestTimeoutMinutes <= 0) return;
+  const cutoff = Date.now() - config.joinRequestTimeoutMinutes * 60 * 1000;
+  for (const request of db.getOpenJoinRequests()) {
+    if (new Date(request.requestedAt).getTime() > cutoff) continue;
+    const user = db.getUserByTelegramId(request.telegramId);
+    if (user?.verified || user?.isWhitelisted) continue;
+    try {
+      await declineChatJoinRequest(Number(request.chatId), Number(request.telegramId));
+    } catch (error) {
+      // The request is already gone: approved by an admin, withdrawn or expired on Telegram's side.
+      logger.warn(`Failed to decline join request from ${request.telegramId} in ${request.chatId}`, error);
+      db.resolveJoinRequest(request.telegramId, request.chatId, 'stale');
+      continue;
+    }
+    db.resolveJoinRequest(request.telegramId, request.chatId, 'declined_timeout');
+    if (user?.requestedGroupId === request.chatId) {
+      db.clearRequestedGroup(request.telegramId);
+    }
+    try {
+      await sendMessage(
+        Number(request.telegramId),
+        'Your join request was declined because your wallet was not verified in time. Verify with /verify <wallet> and request to join again.',
+        { parseMode: undefined }
+      );
+    } catch (error) {
+      logger.warn(`Failed to notify ${request.telegramId} about their declined join request`, error);
+    }
+  }
+}
+
+async function revokeInvite(invite: GroupInviteRow, reason: string): Promise<void> {
+  const chatId = invite.chatId || config.groupId;
+  if (chatId) {
+    try {
+      await revokeChatInviteLink(Number(chatId), invite.inviteLink);
+    } catch (error) {
+      // Telegram rejects revoking links that already expired; those are dead anyway.
+      logger.warn(`Failed to revoke invite link ${invite.id} in chat ${chatId}`, error);
+    }
+  }
+  db.markInviteRevoked(invite.id, reason);
+}
+
+/**
+ * Bot-issued links are personal: revoke them once the intended user joins, and
+ * kick anyone else who got hold of one.
+ */
+async function handleInviteLinkJoin(update: TelegramChatMemberUpdated): Promise<boolean> {
+  const inviteLink = update.invite_link?.invite_link;
+  const joiner = update.new_chat_member?.user;
+  const joined = ['member', 'restricted'].includes(update.new_chat_member?.status ?? '');
+  if (!inviteLink || !joiner || !joined) return false;
+  const match = db.findInviteByLink(inviteLink);
+  if (!match) return false;
+  const { invite, owner } = match;
+  const joinerId = String(joiner.id);
+  if (owner && String(owner.telegramId) === joinerId) {
+    db.markInviteUsed(invite.id, joinerId);
+    await revokeInvite(invite, 'used');
+    return false;
+  }
+  if (update.invite_link?.creates_join_request) {
+    // Join-request links only let people in after the bot approved their own verification.
+    return false;
+  }
+  logger.warn(`User ${joinerId} joined chat ${update.chat.id} with an invite issued to ${owner?.telegramId ?? 'unknown'}. Kicking.`);
+  await revokeInvite(invite, 'leaked');
+  try {
+    await kickChatMember(update.chat.id, joiner.id);
+    await unbanChatMember(update.chat.id, joiner.id);
+  } catch (error) {
+    logger.error(`Failed to remove ${joinerId} who joined with someone else's invite`, error);
+  }
+  db.logEvent(joinerId, 'invite_link_misuse', { chatId: String(update.chat.id), inviteLink, intendedTelegramId: owner?.telegramId ?? null });
+  if (owner) {
+    try {
+      await sendMessage(
+        Number(owner.telegramId),
+        'Your invite link was used by another Telegram account, so it has been revoked. Please contact an admin for a new one.',
+        { parseMode: undefined }
+      );
+    } catch (error) {
+      logger.warn(`Failed to notify ${owner.telegramId} about their leaked invite`, error);
+    }
+  }
+  await notifyAdmins(
+    [
+      `🚨 ${joiner.username ? `@${joiner.username}` : joiner.first_name || 'Unknown'} (${joinerId}) joined ${update.chat.id} with an invite issued to ${owner ? `${formatUserIdentifier(owner)} (${owner.telegramId})` : 'an unknown user'}.`,
+      'They were removed and the link was revoked.',
+    ].join('\n')
+  );
+  return true;
+}
+
+const ACTIVE_MEMBER_STATUSES = ['member', 'restricted'];
+const PRESENT_MEMBER_STATUSES = [...ACTIVE_MEMBER_STATUSES, 'administrator', 'creator'];
+
+/**
+ * Whether the user may be in `chatId`. `verified` stays set after a sweep
+ * removal, so a revoked admission for the chat (low holdings, tier downgrade,
+ * reassigned wallet) overrides it until the user is re-admitted.
+ */
+function isVerifiedMember(telegramId: string, chatId: string): boolean {
+  if (isAdmin(telegramId)) return true;
+  const user = db.getUserByTelegramId(telegramId);
+  if (!user) return false;
+  if (user.isWhitelisted) return true;
+  if (!user.verified) return false;
+  const admission = db.getAdmissions(telegramId).find((entry) => entry.chatId === chatId);
+  return !admission?.revokedAt;
+}
+
+function isGatedChat(chatId: string): boolean {
+  return getGatedChatIds().includes(chatId) || getTierChatIds().includes(chatId);
+}
+
+async function removeUnverifiedMember(telegramId: string, chatId: string, reason: string): Promise<void> {
+  await kickChatMember(Number(chatId), Number(telegramId));
+  await unbanChatMember(Number(chatId), Number(telegramId));
+  db.resolveUnverifiedMember(telegramId, chatId, 'removed');
+  db.logEvent(telegramId, 'unverified_member_removed', { chatId, reason });
+  try {
+    await sendMessage(
+      Number(telegramId),
+      'You were removed from the group because your account is not verified for it. Run /verify <wallet> here, and once verified you will get an invite. If you were removed earlier for low holdings, use /rejoin instead.',
+      { parseMode: undefined }
+    );
+  } catch (error) {
+    logger.warn(`Failed to notify ${telegramId} about their removal`, error);
+  }
+}
+
+/**
+ * Starts a removal countdown for anyone who joins a gated chat without a
+ * verified account, e.g. added by another admin or through an old link.
+ */
+async function handleUnverifiedJoin(update: TelegramChatMemberUpdated): Promise<void> {
+  if (config.unverifiedMemberGraceMinutes <= 0) return;
+  const member = update.new_chat_member;
+  if (!member || member.user.is_bot) return;
+  const joined = ACTIVE_MEMBER_STATUSES.includes(member.status) && !PRESENT_MEMBER_STATUSES.includes(update.old_chat_member?.status ?? 'left');
+  const chatId = String(update.chat.id);
+  const telegramId = String(member.user.id);
+  if (!joined || !isGatedChat(chatId) || isVerifiedMember(telegramId, chatId)) return;
+  const deadline = new Date(Date.now() + config.unverifiedMemberGraceMinutes * 60 * 1000);
+  db.upsertUser(telegramId, member.user.username || member.user.first_name || '');
+  if (!db.recordUnverifiedMember(telegramId, chatId, deadline)) return;
+  logger.log(`Unverified user ${telegramId} joined ${chatId}; removal scheduled for ${deadline.toISOString()}.`);
+  try {
+    await sendMessage(
+      member.user.id,
+      [
+        'You joined a token-gated group without a verified wallet.',
+        `Verify within ${config.unverifiedMemberGraceMinutes} minutes or you will be removed (at ${deadline.toISOString().replace('T', ' ').slice(0, 16)} UTC).`,
+        '',
+        'Run /verify <wallet_address> in this chat to start, or /rejoin if you were removed earlier for low holdings.',
+      ].join('\n'),
+      { parseMode: undefined }
+    );
+  } catch (error) {
+    // Users who never opened a chat with the bot cannot be messaged first.
+    logger.warn(`Failed to DM unverified member ${telegramId}`, error);
+  }
+}
+
+async function removeOverdueUnverifiedMembers(): Promise<void> {
+  for (const row of db.getDueUnverifiedMembers()) {
+    if (isVerifiedMember(row.telegramId, row.chatId)) {
+      db.resolveUnverifiedMember(row.telegramId, row.chatId, 'verified');
+      continue;
+    }
+    try {
+      const member = await getChatMember(Number(row.chatId), Number(row.telegramId));
+      if (!ACTIVE_MEMBER_STATUSES.includes(member.status)) {
+        db.resolveUnverifiedMember(row.telegramId, row.chatId, member.status);
+        continue;
+      }
+      await removeUnverifiedMember(row.telegramId, row.chatId, 'grace_expired');
+      const user = db.getUserByTelegramId(row.telegramId);
+      await notifyAdmins(`🚫 Removed unverified member ${formatUserIdentifier(user)} (${row.telegramId}) from ${row.chatId} after the grace period.`);
+    } catch (error) {
+      logger.warn(`Failed to remove unverified member ${row.telegramId} from ${row.chatId}`, error);
+    }
+  }
+}
+
+/** Revokes bot-issued links that expired or sat unused past INVITE_LINK_MAX_AGE_MINUTES. */
+async function revokeStaleInvites(): Promise<void> {
+  const now = Date.now();
+  const maxAgeMs = config.inviteLinkMaxAgeMinutes * 60 * 1000;
+  for (const invite of db.getOpenInvites()) {
+    const expired = invite.expiresAt && new Date(invite.expiresAt).getTime() <= now;
+    // created_at comes from SQLite's datetime('now'), which is UTC without a zone suffix.
+    const createdAt = new Date(invite.createdAt.includes('T') ? invite.createdAt : `${invite.createdAt.replace(' ', 'T')}Z`).getTime();
+    const stale = maxAgeMs > 0 && !invite.usedAt && now - createdAt > maxAgeMs;
+    if (expired || stale || invite.usedAt) {
+      await revokeInvite(invite, expired ? 'expired' : invite.usedAt ? 'used' : 'unused');
+    }
+  }
+}
+
+function toMembershipStatus(member: TelegramChatMember): MembershipStatus {
+  switch (member.status) {
+    case 'kicked':
+      return 'kicked';
+    case 'left':
+      return 'left';
+    case 'restricted':
+      // Restricted users can also be outside the chat, with restrictions kept for when they rejoin.
+      return member.is_member === false ? 'left' : 'restricted';
+    default:
+      return 'joined';
+  }
+}
+
+/**
+ * Tracks the member the update is about (not the admin who triggered it) and
+ * then runs the join checks.
+ */
 async function handleChatMemberUpdate(update: TelegramChatMemberUpdated): Promise<void> {
-  const userIdValue = update.from?.id || update.new_chat_member?.user?.id;
-  if (!userIdValue) return;
-  const userId = String(userIdValue);
-  if (update.new_chat_member?.status === 'left' || update.new_chat_member?.status === 'kicked') {
-    const user = db.getUserByTelegramId(userId);
-    if (user) {
-      db.updateBalance(userId, 0);
+  const member = update.new_chat_member;
+  if (!member?.user || member.user.is_bot) return;
+  const telegramId = String(member.user.id);
+  const status = toMembershipStatus(member);
+  const previous = db.recordMembership(telegramId, String(update.chat.id), status, {
+    inviteLink: update.invite_link?.invite_link ?? null,
+    actorTelegramId: update.from && update.from.id !== member.user.id ? String(update.from.id) : null,
+  });
+  if (previous !== undefined) {
+    logger.log(`Membership of ${telegramId} in ${update.chat.id}: ${previous ?? 'unknown'} -> ${status}`);
+  }
+  const removed = await handleInviteLinkJoin(update);
+  if (!removed) {
+    await handleUnverifiedJoin(update);
+  }
+}
+
+function getTierChatIds(): string[] {
+  return config.tiers.map((tier) => tier.chatId).filter((chatId): chatId is string => Boolean(chatId));
+}
+
+function getTierForPercent(percentOwned: number): TierDefinition | null {
+  let match: TierDefinition | null = null;
+  for (const tier of config.tiers) {
+    if (percentOwned >= tier.minPercent) {
+      match = tier;
+    }
+  }
+  return match;
+}
+
+function getSweepChatIds(user: UserRow): string[] {
+  const admissions = db.getAdmissions(String(user.telegramId));
+  if (!admissions.length) {
+    // Users verified before admissions were tracked are checked against the default group.
+    return [config.groupId];
+  }
+  // Tier-linked chats are managed by applySweepResult rather than gating rules.
+  const tierChatIds = getTierChatIds();
+  return admissions
+    .filter((admission) => !admission.revokedAt && !tierChatIds.includes(admission.chatId))
+    .map((admission) => admission.chatId);
+}
+
+async function applyTier(user: UserRow, chatId: string, tier: TierDefinition | null, percentOwned: number | null): Promise<void> {
+  if (!chatId) return;
+  const telegramId = String(user.telegramId);
+  const previousTier = db.getCurrentTier(telegramId, chatId);
+  const nextTier = tier?.name ?? null;
+  if (previousTier === nextTier) return;
+  db.recordTierChange(telegramId, chatId, previousTier, nextTier, percentOwned);
+  try {
+    if (nextTier && config.tierAdminTitles) {
+      await promoteTitleOnlyAdmin(Number(chatId), Number(user.telegramId));
+      await setChatAdministratorCustomTitle(Number(chatId), Number(user.telegramId), nextTier);
+    } else if (previousTier) {
+      // Also drops titles granted before TIER_ADMIN_TITLES was turned off.
+      await demoteChatMember(Number(chatId), Number(user.telegramId));
+    }
+  } catch (error) {
+    logger.warn(`Failed to update tier title for ${telegramId} in chat ${chatId}`, error);
+  }
+  if (nextTier) {
+    await sendMessage(Number(user.telegramId), `Your holder tier is now ${nextTier}${previousTier ? ` (was ${previousTier})` : ''}.`, {
+      parseMode: undefined,
+    });
+  }
+}
+
+async function inviteToTierChat(user: UserRow, linkedTier: TierDefinition): Promise<void> {
+  try {
+    await deliverInviteLink(Number(user.telegramId), Number(linkedTier.chatId), `Your holdings unlocked the ${linkedTier.name} chat! Tap the button below to join.`);
+    db.recordAdmission(String(user.telegramId), linkedTier.chatId);
+  } catch (error) {
+    logger.warn(`Failed to invite ${user.telegramId} to tier chat ${linkedTier.chatId}`, error);
+  }
+}
+
+async function removeFromTierChat(user: UserRow, linkedTier: TierDefinition): Promise<void> {
+  const telegramId = String(user.telegramId);
+  try {
+    await kickChatMember(Number(linkedTier.chatId), Number(user.telegramId));
+    await unbanChatMember(Number(linkedTier.chatId), Number(user.telegramId));
+    db.revokeAdmission(telegramId, linkedTier.chatId, 'tier_downgrade');
+    await sendMessage(Number(user.telegramId), `You were removed from the ${linkedTier.name} chat because your tier dropped.`, {
+      parseMode: undefined,
+    });
+  } catch (error) {
+    logger.warn(`Failed to remove ${telegramId} from tier chat ${linkedTier.chatId}`, error);
+  }
+}
+
+async function removeForLowHoldings(user: UserRow, chatId: string, evaluation: RuleEvaluation): Promise<void> {
+  const { ownership } = evaluation.primary;
+  logger.warn(`User ${user.telegramId} no longer meets the rule for chat ${chatId || 'default'}. Kicking.`);
+  if (chatId) {
+    await kickChatMember(Number(chatId), Number(user.telegramId));
+    await unbanChatMember(Number(chatId), Number(user.telegramId));
+    db.revokeAdmission(String(user.telegramId), chatId, 'low_holdings');
+    const currentTier = db.getCurrentTier(String(user.telegramId), chatId);
+    if (currentTier) {
+      db.recordTierChange(String(user.telegramId), chatId, currentTier, null, ownership.percentOwned);
     }
   }
+  await sendMessage(
+    Number(user.telegramId),
+    [
+      'You were removed from the group because your holdings no longer meet its requirement.',
+      formatEvaluation(evaluation),
+      `Required: ${formatRule(evaluation.rule)}.`,
+      `Once you hold enough again, run /rejoin${chatId ? ` ${chatId}` : ''} (available after ${config.rejoinCooldownMinutes} minutes). No new verification transfer is needed.`,
+    ].join('\n'),
+    { parseMode: undefined }
+  );
+  db.logEvent(String(user.telegramId), 'ownership_revoked', {
+    chatId,
+    balance: ownership.balance,
+    percentOwned: ownership.percentOwned,
+  });
+  await notifyAdmins(
+    [
+      `⚠️ Removed ${formatUserIdentifier(user)} (${user.telegramId}) from ${chatId || 'the group'} for dropping below threshold`,
+      `Latest balance: ${ownership.balance}`,
+      `Percent owned: ${formatPercent(ownership.percentOwned)}%`,
+    ].join('\n')
+  );
+}
+
+async function warnGracePeriod(
+  user: UserRow,
+  failing: Array<{ chatId: string; evaluation: RuleEvaluation }>,
+  lostTierChats: TierDefinition[],
+  percentOwned: number,
+  deadline: Date
+): Promise<void> {
+  db.startGracePeriod(String(user.telegramId), deadline, percentOwned);
+  const lines = failing.length
+    ? [
+        '⚠️ Your holdings no longer meet the group requirement.',
+        formatEvaluation(failing[0].evaluation),
+        `Required: ${formatRule(failing[0].evaluation.rule)}.`,
+      ]
+    : [`⚠️ Your holdings dropped below the tier for: ${lostTierChats.map((linkedTier) => `${linkedTier.name} chat`).join(', ')}.`];
+  await sendMessage(
+    Number(user.telegramId),
+    [
+      ...lines,
+      '',
+      `You have until ${deadline.toISOString()} to top up. If you are still below the threshold when the bot re-checks after that, you will be removed${failing.length ? '' : ' from those chats'}.`,
+    ].join('\n'),
+    { parseMode: undefined }
+  );
+}
+
+/**
+ * Removal only happens once the grace window has passed; the first failing
+ * sweep opens the window and warns the user instead. Losing a tier-linked chat
+ * shares the same window.
+ */
+async function applySweepResult(
+  user: UserRow,
+  evaluations: Array<{ chatId: string; evaluation: RuleEvaluation }>,
+  tier: TierDefinition | null
+): Promise<void> {
+  const telegramId = String(user.telegramId);
+  const failing = evaluations.filter(({ evaluation }) => !evaluation.isQualified);
+  const actions = planSweepActions({
+    failingChatIds: failing.map(({ chatId }) => chatId),
+    tiers: config.tiers,
+    tier,
+    admittedChatIds: db.getActiveAdmissions(telegramId).map((admission) => admission.chatId),
+    graceDeadline: user.graceDeadline,
+    graceMinutes: config.sweepGracePeriodMinutes,
+    now: Date.now(),
+  });
+  for (const linkedTier of actions.inviteTierChats) {
+    await inviteToTierChat(user, linkedTier);
+  }
+  switch (actions.grace) {
+    case 'requalified':
+      db.clearGracePeriod(telegramId, 'requalified');
+      await sendMessage(Number(user.telegramId), '✅ Your holdings meet the group requirement again. No further action is needed.', {
+        parseMode: undefined,
+      });
+      return;
+    case 'warn': {
+      const deadline = new Date(Date.now() + config.sweepGracePeriodMinutes * 60 * 1000);
+      const percentOwned = evaluations[0]?.evaluation.primary.ownership.percentOwned ?? 0;
+      await warnGracePeriod(user, failing, actions.lostTierChats, percentOwned, deadline);
+      return;
+    }
+    case 'wait':
+      logger.log(`User ${user.telegramId} is below threshold within their grace period (until ${user.graceDeadline}).`);
+      return;
+    case 'remove':
+      for (const { chatId, evaluation } of failing) {
+        await removeForLowHoldings(user, chatId, evaluation);
+      }
+      for (const linkedTier of actions.removeTierChats) {
+        await removeFromTierChat(user, linkedTier);
+      }
+      db.clearGracePeriod(telegramId, 'removed');
+      return;
+  }
+}
+
+interface SweepPlan {
+  user: UserRow;
+  wallets: string[];
+  chats: Array<{ chatId: string; rule: GatingRule }>;
+}
+
+function buildSweepPlan(user: UserRow): SweepPlan {
+  return {
+    user,
+    wallets: getLinkedWalletAddresses(String(user.telegramId)),
+    chats: getSweepChatIds(user)
+      .map((chatId) => ({ chatId, rule: resolveRule(chatId) }))
+      .filter((entry): entry is { chatId: string; rule: GatingRule } => entry.rule !== null),
+  };
+}
+
+/** Checks one holder against every chat they are gated in and applies tiers, grace periods and removals. */
+async function sweepUser({ user, wallets, chats }: SweepPlan, source: BalanceSource): Promise<Array<{ chatId: string; evaluation: RuleEvaluation }>> {
+  const evaluations: Array<{ chatId: string; evaluation: RuleEvaluation }> = [];
+  let highestTier: TierDefinition | null = null;
+  let balanceRecorded = false;
+  const snapshots = new Map<string, BalanceSnapshotInput>();
+  for (const { chatId, rule } of chats) {
+    const evaluation = await evaluateRule(rule, wallets, source);
+    evaluations.push({ chatId, evaluation });
+    evaluation.results.forEach(({ condition, ownership }) => snapshots.set(condition.mint, toBalanceSnapshot(condition.mint, ownership)));
+    if (!balanceRecorded) {
+      const { ownership } = evaluation.primary;
+      db.updateBalance(String(user.telegramId), ownership.balance);
+      db.updateWalletBalances(String(user.telegramId), ownership.wallets);
+      balanceRecorded = true;
+    }
+    const { percentOwned } = evaluation.primary.ownership;
+    const tier = getTierForPercent(percentOwned);
+    await applyTier(user, chatId, tier, percentOwned);
+    if (tier && (!highestTier || tier.minPercent > highestTier.minPercent)) {
+      highestTier = tier;
+    }
+  }
+  db.recordBalanceSnapshots(String(user.telegramId), Array.from(snapshots.values()));
+  await applySweepResult(user, evaluations, highestTier);
+  return evaluations;
+}
+
+let sweepQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs sweep work one job at a time, so an on-demand recheck never applies
+ * grace periods or removals to a user the hourly sweep is handling too.
+ */
+function enqueueSweep<T>(job: () => Promise<T>): Promise<T> {
+  const run = sweepQueue.then(job, job);
+  sweepQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Runs the sweep for a single verified user on demand, after any sweep in
+ * progress. Returns null for unknown, unverified or whitelisted users, whose
+ * holdings are not enforced.
+ */
+function recheckUser(telegramId: string): Promise<RecheckResult[] | null> {
+  return enqueueSweep(() => recheckUserNow(telegramId));
+}
+
+async function recheckUserNow(telegramId: string): Promise<RecheckResult[] | null> {
+  const user = db.getUserByTelegramId(telegramId);
+  if (!user || !user.verified || user.isWhitelisted) return null;
+  const evaluations = await sweepUser(buildSweepPlan(user), liveBalanceSource);
+  return evaluations.map(({ chatId, evaluation }) => ({
+    chatId,
+    isQualified: evaluation.isQualified,
+    balance: evaluation.primary.ownership.balance,
+    percentOwned: evaluation.primary.ownership.percentOwned,
+  }));
 }
 
 async function runOwnershipSweep(): Promise<void> {
@@ -432,53 +2054,82 @@ async function runOwnershipSweep(): Promise<void> {
     return;
   }
   logger.log(`Ownership sweep: checking ${users.length} users.`);
-  for (const user of users) {
-    if (user.isWhitelisted) {
-      continue;
-    }
+  const plans = users.filter((user) => !user.isWhitelisted).map(buildSweepPlan);
+  let source: BalanceSource = liveBalanceSource;
+  try {
+    source = await createSweepBalanceSource({
+      mints: plans.flatMap((plan) => plan.chats.flatMap((entry) => entry.rule.conditions.map((condition) => condition.mint))),
+      owners: plans.flatMap((plan) => plan.wallets),
+    });
+  } catch (error) {
+    logger.error('Ownership sweep: failed to preload balances, falling back to per-user lookups', error);
+  }
+  for (const plan of plans) {
     try {
-      if (!user.walletAddress) {
-        continue;
-      }
-      const ownership = await verifyOwnership({
-        walletAddress: user.walletAddress,
-        mint: config.tokenMint,
-        requiredPercent: config.requiredPercent,
-      });
-      db.updateBalance(String(user.telegramId), ownership.balance);
-      if (!ownership.isQualified) {
-        logger.warn(`User ${user.telegramId} dropped below threshold. Kicking.`);
-        if (config.groupId) {
-          await kickChatMember(Number(config.groupId), Number(user.telegramId));
-          await unbanChatMember(Number(config.groupId), Number(user.telegramId));
-        }
-        await sendMessage(
-          Number(user.telegramId),
-          `You were removed from the group because your holdings fell to ${formatPercent(ownership.percentOwned)}% of supply. Required: ${formatPercent(config.requiredPercent)}%.`
-        );
-        db.logEvent(String(user.telegramId), 'ownership_revoked', {
-          balance: ownership.balance,
-          percentOwned: ownership.percentOwned,
-        });
-        await notifyAdmins(
-          [
-            `⚠️ Removed ${formatUserIdentifier(user)} (${user.telegramId}) for dropping below threshold`,
-            `Latest balance: ${ownership.balance}`,
-            `Percent owned: ${formatPercent(ownership.percentOwned)}%`,
-          ].join('\n')
-        );
-      }
+      await sweepUser(plan, source);
     } catch (error) {
-      logger.error('Ownership sweep error for user', user.telegramId, error);
+      logger.error('Ownership sweep error for user', plan.user.telegramId, error);
+    }
+  }
+  try {
+    const now = Date.now();
+    const removed = db.compactBalanceSnapshots(
+      new Date(now - config.snapshotFullResolutionDays * DAY_MS),
+      new Date(now - config.snapshotRetentionDays * DAY_MS)
+    );
+    if (removed) {
+      logger.log(`Ownership sweep: compacted ${removed} balance snapshot(s).`);
     }
+  } catch (error) {
+    logger.error('Ownership sweep: balance snapshot compaction failed', error);
+  }
+}
+
+function toBalanceSnapshot(mint: string, ownership: OwnershipResult): BalanceSnapshotInput {
+  return {
+    mint,
+    rawBalance: ownership.rawBalance,
+    rawSupply: ownership.rawSupply,
+    decimals: ownership.decimals,
+    balance: ownership.balance,
+    supply: ownership.supply,
+    percentOwned: ownership.percentOwned,
+  };
+}
+
+function formatTrendLine(trend: HolderTrend, index: number): string {
+  const user = db.getUserByTelegramId(trend.telegramId);
+  const sign = trend.percentChange > 0 ? '+' : '';
+  return `${index + 1}. ${formatUserIdentifier(user)}: ${sign}${formatPercent(trend.percentChange)}% of supply (${trend.balanceChange} tokens, now ${formatPercent(trend.to.percentOwned)}%) ${shortenValue(trend.mint)}`;
+}
+
+/** Sends the holder trend digest once per TREND_DIGEST_INTERVAL_DAYS; the last send survives restarts. */
+async function sendTrendDigestIfDue(): Promise<void> {
+  if (config.trendDigestIntervalDays <= 0 || !config.adminIds.length) return;
+  const intervalMs = config.trendDigestIntervalDays * DAY_MS;
+  const now = Date.now();
+  const lastSent = db.getBotState(TREND_DIGEST_STATE_KEY);
+  if (!lastSent) {
+    // Start the clock on first run so the first digest covers a full interval of snapshots.
+    db.setBotState(TREND_DIGEST_STATE_KEY, new Date(now).toISOString());
+    return;
   }
+  if (now - new Date(lastSent).getTime() < intervalMs) return;
+  const digest = buildTrendDigest({ since: new Date(now - intervalMs) }, config.trendDigestSize);
+  db.setBotState(TREND_DIGEST_STATE_KEY, new Date(now).toISOString());
+  const lines = [`📊 Holder trends over the last ${config.trendDigestIntervalDays} day(s), verified members only.`, ''];
+  lines.push('Top accumulators:');
+  lines.push(...(digest.accumulators.length ? digest.accumulators.map(formatTrendLine) : ['- none']));
+  lines.push('', 'Top sellers:');
+  lines.push(...(digest.sellers.length ? digest.sellers.map(formatTrendLine) : ['- none']));
+  await notifyAdmins(lines.join('\n'));
 }
 
 async function main(): Promise<void> {
   if (!config.telegramToken) {
     throw new Error('TELEGRAM_BOT_TOKEN must be set.');
   }
-  if (!config.treasuryWallet || !config.tokenMint) {
+  if (!config.treasuryWallet || (!config.tokenMint && !db.getGatingRules().length)) {
     logger.warn('Treasury wallet or token mint not configured. Verification cannot complete until they are set.');
   }
   db.initializeSchema();
@@ -506,7 +2157,23 @@ async function main(): Promise<void> {
   botClient.on('polling_error', (error) => {
     logger.error('Polling error', error);
   });
-  setInterval(runOwnershipSweep, config.hourlyCheckIntervalMs);
+  setInterval(() => {
+    enqueueSweep(runOwnershipSweep).catch((error) => logger.error('Ownership sweep failed', error));
+  }, config.hourlyCheckIntervalMs);
+  setInterval(() => {
+    revokeStaleInvites().catch((error) => logger.error('Invite cleanup failed', error));
+  }, INVITE_CLEANUP_INTERVAL_MS);
+  setInterval(() => {
+    declineExpiredJoinRequests().catch((error) => logger.error('Join request timeout check failed', error));
+  }, JOIN_REQUEST_CHECK_INTERVAL_MS);
+  setInterval(() => {
+    removeOverdueUnverifiedMembers().catch((error) => logger.error('Unverified member check failed', error));
+  }, UNVERIFIED_MEMBER_CHECK_INTERVAL_MS);
+  setInterval(() => {
+    sendTrendDigestIfDue().catch((error) => logger.error('Trend digest failed', error));
+  }, TREND_DIGEST_CHECK_INTERVAL_MS);
+  startTreasuryWatcher(handleTreasuryMatch);
+  startAdminApi({ setWhitelist: setUserWhitelist, recheckUser });
   logger.log('SafeSol gating bot is running.');
 }
 
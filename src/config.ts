@@ -46,38 +46,140 @@ function parseStringArray(value: string | undefined): string[] {
     .filter(Boolean);
 }
 
+export type VerificationMode = 'amount' | 'memo';
+
+const VERIFICATION_MODES: VerificationMode[] = ['amount', 'memo'];
+
+function parseVerificationMode(value: string | undefined): VerificationMode {
+  const mode = (value || 'amount').trim().toLowerCase() as VerificationMode;
+  if (VERIFICATION_MODES.includes(mode)) return mode;
+  console.warn(`Warning: unknown VERIFICATION_MODE "${value}", falling back to "amount".`);
+  return 'amount';
+}
+
+export type AdmissionMode = 'invite' | 'join_request';
+
+function parseAdmissionMode(value: string | undefined): AdmissionMode {
+  const mode = (value || 'invite').trim().toLowerCase();
+  if (mode === 'invite' || mode === 'join_request') return mode;
+  console.warn(`Warning: unknown ADMISSION_MODE "${value}", falling back to "invite".`);
+  return 'invite';
+}
+
+export interface TierDefinition {
+  name: string;
+  minPercent: number;
+  chatId?: string;
+}
+
+/**
+ * Parses `Name:minPercent[:chatId]` entries, e.g. `Dolphin:0.001,Whale:0.005:-1001234`.
+ * Tiers are returned sorted from the lowest to the highest threshold.
+ */
+function parseTiers(value: string | undefined): TierDefinition[] {
+  return parseStringArray(value)
+    .map((entry): TierDefinition | null => {
+      const [name, minPercent, chatId] = entry.split(':').map((part) => part.trim());
+      const parsedPercent = Number(minPercent);
+      if (!name || !Number.isFinite(parsedPercent)) {
+        console.warn(`Warning: ignoring invalid tier definition "${entry}".`);
+        return null;
+      }
+      return { name, minPercent: parsedPercent, chatId: chatId || undefined };
+    })
+    .filter((tier): tier is TierDefinition => tier !== null)
+    .sort((a, b) => a.minPercent - b.minPercent);
+}
+
 loadEnv();
 
 export interface Config {
   telegramToken: string;
   groupId: string;
   solanaRpcUrl: string;
+  solanaRpcUrls: string[];
+  rpcTimeoutMs: number;
+  rpcMaxRetries: number;
+  rpcRateLimitPerSecond: number;
+  rpcEndpointCooldownMs: number;
+  solanaWsUrl: string;
   treasuryWallet: string;
   tokenMint: string;
+  verificationMode: VerificationMode;
+  allowSignedMessageVerification: boolean;
   minTokenCode: number;
   maxTokenCode: number;
   requiredPercent: number;
   hourlyCheckIntervalMs: number;
+  treasuryPollIntervalMs: number;
+  sweepGracePeriodMinutes: number;
+  sweepBalanceStrategy: 'scan' | 'owner';
+  sweepConcurrency: number;
+  tiers: TierDefinition[];
+  tierAdminTitles: boolean;
   adminIds: string[];
   databasePath: string;
   inviteLinkTtlMinutes: number;
   inviteLinkMemberLimit: number;
+  inviteLinkMaxAgeMinutes: number;
+  admissionMode: AdmissionMode;
+  joinRequestTimeoutMinutes: number;
+  unverifiedMemberGraceMinutes: number;
+  rejoinCooldownMinutes: number;
+  snapshotFullResolutionDays: number;
+  snapshotRetentionDays: number;
+  trendDigestIntervalDays: number;
+  trendDigestSize: number;
+  adminApiPort: number;
+  adminApiHost: string;
+  adminApiToken: string;
 }
 
+const admissionMode = parseAdmissionMode(process.env.ADMISSION_MODE);
+
 export const config: Config = {
   telegramToken: process.env.TELEGRAM_BOT_TOKEN || '',
   groupId: process.env.TELEGRAM_GROUP_ID || '',
   solanaRpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+  solanaRpcUrls: parseStringArray(
+    process.env.SOLANA_RPC_URLS || process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com'
+  ),
+  rpcTimeoutMs: parseNumber(process.env.RPC_TIMEOUT_MS, 15000),
+  rpcMaxRetries: parseNumber(process.env.RPC_MAX_RETRIES, 4),
+  rpcRateLimitPerSecond: parseNumber(process.env.RPC_RATE_LIMIT_PER_SECOND, 8),
+  rpcEndpointCooldownMs: parseNumber(process.env.RPC_ENDPOINT_COOLDOWN_MS, 30000),
+  solanaWsUrl: process.env.SOLANA_WS_URL || '',
   treasuryWallet: process.env.TREASURY_WALLET || '',
   tokenMint: process.env.TOKEN_MINT || '',
+  verificationMode: parseVerificationMode(process.env.VERIFICATION_MODE),
+  allowSignedMessageVerification: process.env.ALLOW_SIGNED_MESSAGE_VERIFICATION === 'true',
   minTokenCode: parseNumber(process.env.MIN_TOKEN_CODE, 0.000001),
   maxTokenCode: parseNumber(process.env.MAX_TOKEN_CODE, 0.000009),
   requiredPercent: parseNumber(process.env.REQUIRED_PERCENT, 0.001),
   hourlyCheckIntervalMs: parseNumber(process.env.HOURLY_CHECK_INTERVAL_MS, 60 * 60 * 1000),
+  treasuryPollIntervalMs: parseNumber(process.env.TREASURY_POLL_INTERVAL_MS, 20000),
+  sweepGracePeriodMinutes: parseNumber(process.env.SWEEP_GRACE_PERIOD_MINUTES, 180),
+  sweepBalanceStrategy: process.env.SWEEP_BALANCE_STRATEGY === 'owner' ? 'owner' : 'scan',
+  sweepConcurrency: parseNumber(process.env.SWEEP_CONCURRENCY, 4),
+  tiers: parseTiers(process.env.TIERS),
+  tierAdminTitles: process.env.TIER_ADMIN_TITLES === 'true',
   adminIds: parseStringArray(process.env.ADMIN_IDS),
   databasePath: process.env.DATABASE_PATH || path.resolve(process.cwd(), 'data', 'bot.sqlite'),
   inviteLinkTtlMinutes: parseNumber(process.env.INVITE_LINK_TTL_MINUTES, 10),
   inviteLinkMemberLimit: parseNumber(process.env.INVITE_LINK_MEMBER_LIMIT, 1),
+  inviteLinkMaxAgeMinutes: parseNumber(process.env.INVITE_LINK_MAX_AGE_MINUTES, 24 * 60),
+  admissionMode,
+  // Declining is only on by default where join requests are the way in.
+  joinRequestTimeoutMinutes: parseNumber(process.env.JOIN_REQUEST_TIMEOUT_MINUTES, admissionMode === 'join_request' ? 60 : 0),
+  unverifiedMemberGraceMinutes: parseNumber(process.env.UNVERIFIED_MEMBER_GRACE_MINUTES, 30),
+  rejoinCooldownMinutes: parseNumber(process.env.REJOIN_COOLDOWN_MINUTES, 60),
+  snapshotFullResolutionDays: parseNumber(process.env.BALANCE_SNAPSHOT_FULL_RESOLUTION_DAYS, 14),
+  snapshotRetentionDays: parseNumber(process.env.BALANCE_SNAPSHOT_RETENTION_DAYS, 365),
+  trendDigestIntervalDays: parseNumber(process.env.TREND_DIGEST_INTERVAL_DAYS, 7),
+  trendDigestSize: parseNumber(process.env.TREND_DIGEST_SIZE, 5),
+  adminApiPort: parseNumber(process.env.ADMIN_API_PORT, 0),
+  adminApiHost: process.env.ADMIN_API_HOST || '127.0.0.1',
+  adminApiToken: process.env.ADMIN_API_TOKEN || '',
 };
 
 if (!config.telegramToken) {
@@ -3,13 +3,16 @@ import path from 'path';
 import Database from 'better-sqlite3';
 import { drizzle, BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
 import {
+  getTableConfig,
   sqliteTable,
   integer,
   text,
   real,
 } from 'drizzle-orm/sqlite-core';
-import { and, eq, isNotNull, sql } from 'drizzle-orm';
+import { and, desc, eq, inArray, isNotNull, isNull, sql } from 'drizzle-orm';
 import { config } from '../config';
+import { runMigrations } from './migrations';
+import { toSqliteTimestamp, type DateRange, type EventPayloads, type EventQuery, type VerificationEventRecord, type VerificationEventType } from './events';
 
 const DB_PATH = config.databasePath;
 
@@ -30,14 +33,18 @@ const users = sqliteTable('users', {
   telegramId: text('telegram_id').notNull().unique(),
   username: text('username'),
   walletAddress: text('wallet_address'),
-  verificationCode: real('verification_code'),
+  verificationCode: text('verification_code'),
   verificationExpiresAt: text('verification_expires_at'),
+  verificationMethod: text('verification_method'),
+  verificationRequestedAt: text('verification_requested_at'),
   verified: integer('verified').notNull().default(0),
   verifiedAt: text('verified_at'),
   lastBalance: real('last_balance'),
   lastCheckedAt: text('last_checked_at'),
   isWhitelisted: integer('is_whitelisted').notNull().default(0),
   requestedGroupId: text('requested_group_id'),
+  graceWarnedAt: text('grace_warned_at'),
+  graceDeadline: text('grace_deadline'),
   createdAt: text('created_at')
     .notNull()
     .default(sql`(datetime('now'))`),
@@ -60,14 +67,199 @@ const groupInvites = sqliteTable('group_invites', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   userId: integer('user_id').notNull(),
   inviteLink: text('invite_link').notNull(),
+  chatId: text('chat_id'),
   expiresAt: text('expires_at'),
+  usedAt: text('used_at'),
+  usedBy: text('used_by'),
+  revokedAt: text('revoked_at'),
+  createdAt: text('created_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+});
+
+const linkedWallets = sqliteTable('linked_wallets', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull(),
+  walletAddress: text('wallet_address').notNull().unique(),
+  verifiedAt: text('verified_at'),
+  lastBalance: real('last_balance'),
+  lastCheckedAt: text('last_checked_at'),
+  createdAt: text('created_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+});
+
+const gatingRules = sqliteTable('gating_rules', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  chatId: text('chat_id').notNull().unique(),
+  operator: text('operator').notNull().default('and'),
+  conditions: text('conditions').notNull(),
+  createdAt: text('created_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+});
+
+const groupAdmissions = sqliteTable('group_admissions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull(),
+  chatId: text('chat_id').notNull(),
+  admittedAt: text('admitted_at').notNull(),
+  revokedAt: text('revoked_at'),
+  revokeReason: text('revoke_reason'),
+  lastRejoinAttemptAt: text('last_rejoin_attempt_at'),
+});
+
+const tierHistory = sqliteTable('tier_history', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull(),
+  chatId: text('chat_id').notNull(),
+  previousTier: text('previous_tier'),
+  newTier: text('new_tier'),
+  percentOwned: real('percent_owned'),
+  createdAt: text('created_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+});
+
+const usedSignatures = sqliteTable('used_signatures', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  signature: text('signature').notNull().unique(),
+  userId: integer('user_id').notNull(),
+  walletAddress: text('wallet_address').notNull(),
+  verificationMethod: text('verification_method'),
+  asset: text('asset'),
+  amount: text('amount'),
+  blockTime: integer('block_time'),
+  createdAt: text('created_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+});
+
+const refunds = sqliteTable('refunds', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  sourceSignature: text('source_signature').notNull().unique(),
+  userId: integer('user_id').notNull(),
+  walletAddress: text('wallet_address').notNull(),
+  asset: text('asset').notNull(),
+  amount: text('amount').notNull(),
+  status: text('status').notNull().default('pending'),
+  batchId: text('batch_id'),
+  refundSignature: text('refund_signature'),
+  createdAt: text('created_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+  exportedAt: text('exported_at'),
+  paidAt: text('paid_at'),
+});
+
+const joinRequests = sqliteTable('join_requests', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull(),
+  chatId: text('chat_id').notNull(),
+  requestedAt: text('requested_at').notNull(),
+  resolvedAt: text('resolved_at'),
+  resolution: text('resolution'),
+});
+
+const unverifiedMembers = sqliteTable('unverified_members', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull(),
+  chatId: text('chat_id').notNull(),
+  joinedAt: text('joined_at').notNull(),
+  deadline: text('deadline').notNull(),
+  resolvedAt: text('resolved_at'),
+  resolution: text('resolution'),
+});
+
+const memberships = sqliteTable('memberships', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull(),
+  chatId: text('chat_id').notNull(),
+  status: text('status').notNull(),
+  inviteLink: text('invite_link'),
+  joinedAt: text('joined_at'),
+  leftAt: text('left_at'),
+  updatedAt: text('updated_at').notNull(),
+});
+
+const botState = sqliteTable('bot_state', {
+  key: text('key').primaryKey(),
+  value: text('value').notNull(),
+  updatedAt: text('updated_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+});
+
+const balanceSnapshots = sqliteTable('balance_snapshots', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull(),
+  mint: text('mint').notNull(),
+  rawBalance: text('raw_balance').notNull(),
+  rawSupply: text('raw_supply').notNull(),
+  decimals: integer('decimals').notNull(),
+  balance: real('balance').notNull(),
+  supply: real('supply').notNull(),
+  percentOwned: real('percent_owned').notNull(),
   createdAt: text('created_at')
     .notNull()
     .default(sql`(datetime('now'))`),
 });
 
 export type UserRow = typeof users.$inferSelect;
+export type VerificationEventRow = typeof verificationEvents.$inferSelect;
 export type GroupInviteRow = typeof groupInvites.$inferSelect;
+export type LinkedWalletRow = typeof linkedWallets.$inferSelect;
+export type GatingRuleRow = typeof gatingRules.$inferSelect;
+export type GroupAdmissionRow = typeof groupAdmissions.$inferSelect;
+export type TierHistoryRow = typeof tierHistory.$inferSelect;
+export type UsedSignatureRow = typeof usedSignatures.$inferSelect;
+export type RefundRow = typeof refunds.$inferSelect;
+export type JoinRequestRow = typeof joinRequests.$inferSelect;
+export type UnverifiedMemberRow = typeof unverifiedMembers.$inferSelect;
+export type MembershipRow = typeof memberships.$inferSelect;
+export type BalanceSnapshotRow = typeof balanceSnapshots.$inferSelect;
+export type MembershipStatus = 'joined' | 'restricted' | 'left' | 'kicked';
+
+const PRESENT_MEMBERSHIP_STATUSES: MembershipStatus[] = ['joined', 'restricted'];
+
+export interface ConsumedSignature {
+  signature: string;
+  walletAddress: string;
+  verificationMethod: string | null;
+  asset: string;
+  amount: string;
+  blockTime?: number;
+}
+
+export type BalanceSnapshotInput = Omit<BalanceSnapshotRow, 'id' | 'userId' | 'createdAt'>;
+
+/** Earliest and latest snapshot of one holder and mint inside a window. */
+export interface SnapshotWindow {
+  telegramId: string;
+  mint: string;
+  first: BalanceSnapshotRow;
+  last: BalanceSnapshotRow;
+}
+
+const TABLES = [
+  users,
+  verificationEvents,
+  groupInvites,
+  linkedWallets,
+  gatingRules,
+  groupAdmissions,
+  tierHistory,
+  usedSignatures,
+  refunds,
+  joinRequests,
+  unverifiedMembers,
+  memberships,
+  botState,
+  balanceSnapshots,
+];
 
 let schemaInitialized = false;
 
@@ -81,49 +273,29 @@ function getUserRecord(telegramId: string): UserRow | null {
   );
 }
 
+/**
+ * Fails at startup when a table definition uses a column that no migration
+ * adds, instead of every query on that table failing with "no such column".
+ */
+function assertTablesMatchSchema(): void {
+  const missing = TABLES.flatMap((table) => {
+    const { name, columns } = getTableConfig(table);
+    const existing = new Set(sqlite.prepare(`PRAGMA table_info(${name})`).all().map((info) => String(info.name)));
+    return columns.filter((column) => !existing.has(column.name)).map((column) => `${name}.${column.name}`);
+  });
+  if (missing.length) {
+    throw new Error(
+      `Database is missing column(s) ${missing.join(', ')}. Add an ALTER TABLE ... ADD COLUMN migration for them in src/db/migrations.ts.`
+    );
+  }
+}
+
 export function initializeSchema(): void {
   if (schemaInitialized) return;
   sqlite.pragma('journal_mode = WAL');
+  runMigrations(sqlite);
+  assertTablesMatchSchema();
   sqlite.pragma('foreign_keys = ON');
-  sqlite.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      telegram_id TEXT UNIQUE NOT NULL,
-      username TEXT,
-      wallet_address TEXT,
-      verification_code REAL,
-      verification_expires_at TEXT,
-      verified INTEGER DEFAULT 0,
-      verified_at TEXT,
-      last_balance REAL,
-      last_checked_at TEXT,
-      is_whitelisted INTEGER DEFAULT 0,
-      requested_group_id TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      updated_at TEXT DEFAULT (datetime('now'))
-    );
-    CREATE TABLE IF NOT EXISTS verification_events (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL,
-      event_type TEXT NOT NULL,
-      payload TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      FOREIGN KEY (user_id) REFERENCES users(id)
-    );
-    CREATE TABLE IF NOT EXISTS group_invites (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL,
-      invite_link TEXT NOT NULL,
-      expires_at TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      FOREIGN KEY (user_id) REFERENCES users(id)
-    );
-    CREATE TRIGGER IF NOT EXISTS users_updated_at
-    AFTER UPDATE ON users
-    BEGIN
-      UPDATE users SET updated_at = datetime('now') WHERE id = NEW.id;
-    END;
-  `);
   schemaInitialized = true;
 }
 
@@ -133,7 +305,7 @@ function ensureInitialized(): void {
   }
 }
 
-function insertEvent(userId: number, eventType: string, payload: Record<string, unknown>): void {
+function insertEvent<T extends VerificationEventType>(userId: number, eventType: T, payload: EventPayloads[T]): void {
   db
     .insert(verificationEvents)
     .values({
@@ -171,9 +343,10 @@ export function upsertUser(telegramId: string, username?: string): UserRow | nul
 export function saveVerificationRequest(
   telegramId: string,
   walletAddress: string,
-  verificationCode: number,
+  verificationCode: string,
   expiresAt: Date | null,
-  requestedGroupId: string | null
+  requestedGroupId: string | null,
+  verificationMethod = 'amount'
 ): void {
   const user = upsertUser(telegramId);
   if (!user) return;
@@ -181,7 +354,8 @@ export function saveVerificationRequest(
     walletAddress,
     verificationCode,
     verificationExpiresAt: expiresAt ? expiresAt.toISOString() : null,
-    verified: 0,
+    verificationMethod,
+    verificationRequestedAt: new Date().toISOString(),
   };
   if (requestedGroupId !== null && requestedGroupId !== undefined) {
     updates.requestedGroupId = requestedGroupId;
@@ -194,6 +368,7 @@ export function saveVerificationRequest(
   insertEvent(user.id, 'verification_requested', {
     walletAddress,
     verificationCode,
+    verificationMethod,
     expiresAt: expiresAt ? expiresAt.toISOString() : null,
   });
 }
@@ -216,7 +391,7 @@ export function markVerified(telegramId: string, balance: number): void {
   insertEvent(user.id, 'verified', { balance });
 }
 
-export function recordInviteLink(telegramId: string, inviteLink: string, expiresAt: Date | null): void {
+export function recordInviteLink(telegramId: string, inviteLink: string, expiresAt: Date | null, chatId: string | null = null): void {
   ensureInitialized();
   const user = upsertUser(telegramId);
   if (!user) return;
@@ -225,15 +400,62 @@ export function recordInviteLink(telegramId: string, inviteLink: string, expires
     .values({
       userId: user.id,
       inviteLink,
+      chatId,
       expiresAt: expiresAt ? expiresAt.toISOString() : null,
     })
     .run();
   insertEvent(user.id, 'invite_link_created', {
     inviteLink,
+    chatId,
     expiresAt: expiresAt ? expiresAt.toISOString() : null,
   });
 }
 
+export interface InviteWithOwner {
+  invite: GroupInviteRow;
+  owner: UserRow | null;
+}
+
+export function findInviteByLink(inviteLink: string): InviteWithOwner | null {
+  ensureInitialized();
+  const invite = db.select().from(groupInvites).where(eq(groupInvites.inviteLink, inviteLink)).orderBy(desc(groupInvites.id)).get();
+  if (!invite) return null;
+  return { invite, owner: db.select().from(users).where(eq(users.id, invite.userId)).get() ?? null };
+}
+
+export function getInvitesCreatedWithin(range: DateRange = {}): InviteWithOwner[] {
+  ensureInitialized();
+  return db
+    .select()
+    .from(groupInvites)
+    .where(and(...createdWithin(groupInvites.createdAt, range)))
+    .orderBy(groupInvites.id)
+    .all()
+    .map((invite: GroupInviteRow) => ({ invite, owner: db.select().from(users).where(eq(users.id, invite.userId)).get() ?? null }));
+}
+
+/** Invites that have not been revoked yet, oldest first. */
+export function getOpenInvites(): GroupInviteRow[] {
+  ensureInitialized();
+  return db.select().from(groupInvites).where(isNull(groupInvites.revokedAt)).orderBy(groupInvites.id).all();
+}
+
+export function markInviteUsed(inviteId: number, usedBy: string): void {
+  ensureInitialized();
+  const invite = db.select().from(groupInvites).where(eq(groupInvites.id, inviteId)).get();
+  if (!invite) return;
+  db.update(groupInvites).set({ usedAt: new Date().toISOString(), usedBy }).where(eq(groupInvites.id, inviteId)).run();
+  insertEvent(invite.userId, 'invite_link_used', { inviteLink: invite.inviteLink, chatId: invite.chatId, usedBy });
+}
+
+export function markInviteRevoked(inviteId: number, reason: string): void {
+  ensureInitialized();
+  const invite = db.select().from(groupInvites).where(eq(groupInvites.id, inviteId)).get();
+  if (!invite || invite.revokedAt) return;
+  db.update(groupInvites).set({ revokedAt: new Date().toISOString() }).where(eq(groupInvites.id, inviteId)).run();
+  insertEvent(invite.userId, 'invite_link_revoked', { inviteLink: invite.inviteLink, chatId: invite.chatId, reason });
+}
+
 export function updateBalance(telegramId: string, balance: number): void {
   ensureInitialized();
   const now = new Date().toISOString();
@@ -247,6 +469,268 @@ export function updateBalance(telegramId: string, balance: number): void {
     .run();
 }
 
+export function getLinkedWallets(telegramId: string): LinkedWalletRow[] {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return [];
+  return db.select().from(linkedWallets).where(eq(linkedWallets.userId, user.id)).all();
+}
+
+/**
+ * Links a proven wallet to `telegramId`. A wallet has one active owner, so any
+ * other account it was linked to loses it; those accounts are returned.
+ */
+export function linkWallet(telegramId: string, walletAddress: string): UserRow[] {
+  const user = upsertUser(telegramId);
+  if (!user) return [];
+  const now = new Date().toISOString();
+  const previousOwners = db
+    .select()
+    .from(linkedWallets)
+    .where(eq(linkedWallets.walletAddress, walletAddress))
+    .all()
+    .filter((link: LinkedWalletRow) => link.userId !== user.id)
+    .map((link: LinkedWalletRow) => db.select().from(users).where(eq(users.id, link.userId)).get())
+    .filter(Boolean) as UserRow[];
+  for (const previous of previousOwners) {
+    unlinkWallet(previous.telegramId, walletAddress);
+    insertEvent(previous.id, 'wallet_reassigned', { walletAddress, newOwnerTelegramId: telegramId });
+  }
+  const existing = db
+    .select()
+    .from(linkedWallets)
+    .where(and(eq(linkedWallets.userId, user.id), eq(linkedWallets.walletAddress, walletAddress)))
+    .get();
+  if (existing) {
+    db.update(linkedWallets).set({ verifiedAt: now }).where(eq(linkedWallets.id, existing.id)).run();
+  } else {
+    db
+      .insert(linkedWallets)
+      .values({
+        userId: user.id,
+        walletAddress,
+        verifiedAt: now,
+      })
+      .run();
+  }
+  insertEvent(user.id, 'wallet_linked', {
+    walletAddress,
+    previousOwnerTelegramIds: previousOwners.map((previous) => previous.telegramId),
+  });
+  return previousOwners;
+}
+
+export function getWalletOwner(walletAddress: string): UserRow | null {
+  ensureInitialized();
+  const link = db.select().from(linkedWallets).where(eq(linkedWallets.walletAddress, walletAddress)).orderBy(desc(linkedWallets.id)).get();
+  if (!link) return null;
+  return db.select().from(users).where(eq(users.id, link.userId)).get() ?? null;
+}
+
+export function unlinkWallet(telegramId: string, walletAddress: string): boolean {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return false;
+  const existing = db
+    .select()
+    .from(linkedWallets)
+    .where(and(eq(linkedWallets.userId, user.id), eq(linkedWallets.walletAddress, walletAddress)))
+    .get();
+  if (!existing) return false;
+  db.delete(linkedWallets).where(eq(linkedWallets.id, existing.id)).run();
+  if (user.walletAddress === walletAddress) {
+    db
+      .update(users)
+      .set({
+        walletAddress: null,
+        verificationCode: null,
+        verificationExpiresAt: null,
+        verificationMethod: null,
+        verificationRequestedAt: null,
+      })
+      .where(eq(users.id, user.id))
+      .run();
+  }
+  insertEvent(user.id, 'wallet_unlinked', { walletAddress });
+  return true;
+}
+
+export function updateWalletBalances(
+  telegramId: string,
+  balances: Array<{ walletAddress: string; balance: number }>
+): void {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return;
+  const now = new Date().toISOString();
+  for (const entry of balances) {
+    db
+      .update(linkedWallets)
+      .set({
+        lastBalance: entry.balance,
+        lastCheckedAt: now,
+      })
+      .where(and(eq(linkedWallets.userId, user.id), eq(linkedWallets.walletAddress, entry.walletAddress)))
+      .run();
+  }
+}
+
+export function getGatingRule(chatId: string): GatingRuleRow | null {
+  ensureInitialized();
+  return db.select().from(gatingRules).where(eq(gatingRules.chatId, chatId)).get() ?? null;
+}
+
+export function getGatingRules(): GatingRuleRow[] {
+  ensureInitialized();
+  return db.select().from(gatingRules).all();
+}
+
+export function saveGatingRule(chatId: string, operator: string, conditions: string): void {
+  ensureInitialized();
+  const existing = getGatingRule(chatId);
+  if (existing) {
+    db.update(gatingRules).set({ operator, conditions }).where(eq(gatingRules.id, existing.id)).run();
+    return;
+  }
+  db.insert(gatingRules).values({ chatId, operator, conditions }).run();
+}
+
+export function deleteGatingRule(chatId: string): boolean {
+  ensureInitialized();
+  const existing = getGatingRule(chatId);
+  if (!existing) return false;
+  db.delete(gatingRules).where(eq(gatingRules.id, existing.id)).run();
+  return true;
+}
+
+export function recordAdmission(telegramId: string, chatId: string): void {
+  const user = upsertUser(telegramId);
+  if (!user) return;
+  const now = new Date().toISOString();
+  const existing = db
+    .select()
+    .from(groupAdmissions)
+    .where(and(eq(groupAdmissions.userId, user.id), eq(groupAdmissions.chatId, chatId)))
+    .get();
+  if (existing) {
+    db
+      .update(groupAdmissions)
+      .set({ admittedAt: now, revokedAt: null, revokeReason: null })
+      .where(eq(groupAdmissions.id, existing.id))
+      .run();
+  } else {
+    db.insert(groupAdmissions).values({ userId: user.id, chatId, admittedAt: now }).run();
+  }
+  insertEvent(user.id, 'admission_granted', { chatId });
+}
+
+export function revokeAdmission(telegramId: string, chatId: string, reason: string): void {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return;
+  db
+    .update(groupAdmissions)
+    .set({ revokedAt: new Date().toISOString(), revokeReason: reason })
+    .where(and(eq(groupAdmissions.userId, user.id), eq(groupAdmissions.chatId, chatId), isNull(groupAdmissions.revokedAt)))
+    .run();
+  insertEvent(user.id, 'admission_revoked', { chatId, reason });
+}
+
+/** Starts the /rejoin cooldown again after a failed attempt. */
+export function recordRejoinAttempt(telegramId: string, chatId: string): void {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return;
+  db
+    .update(groupAdmissions)
+    .set({ lastRejoinAttemptAt: new Date().toISOString() })
+    .where(and(eq(groupAdmissions.userId, user.id), eq(groupAdmissions.chatId, chatId)))
+    .run();
+}
+
+export function getAdmissions(telegramId: string): GroupAdmissionRow[] {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return [];
+  return db.select().from(groupAdmissions).where(eq(groupAdmissions.userId, user.id)).all();
+}
+
+export function getActiveAdmissions(telegramId: string): GroupAdmissionRow[] {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return [];
+  return db
+    .select()
+    .from(groupAdmissions)
+    .where(and(eq(groupAdmissions.userId, user.id), isNull(groupAdmissions.revokedAt)))
+    .all();
+}
+
+export function getTierHistory(telegramId: string, chatId?: string): TierHistoryRow[] {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return [];
+  const condition = chatId ? and(eq(tierHistory.userId, user.id), eq(tierHistory.chatId, chatId)) : eq(tierHistory.userId, user.id);
+  return db.select().from(tierHistory).where(condition).orderBy(desc(tierHistory.id)).all();
+}
+
+export function getCurrentTier(telegramId: string, chatId: string): string | null {
+  const [latest] = getTierHistory(telegramId, chatId);
+  return latest?.newTier ?? null;
+}
+
+export function recordTierChange(
+  telegramId: string,
+  chatId: string,
+  previousTier: string | null,
+  newTier: string | null,
+  percentOwned: number | null
+): void {
+  const user = upsertUser(telegramId);
+  if (!user) return;
+  db
+    .insert(tierHistory)
+    .values({
+      userId: user.id,
+      chatId,
+      previousTier,
+      newTier,
+      percentOwned,
+    })
+    .run();
+  insertEvent(user.id, 'tier_changed', { chatId, previousTier, newTier, percentOwned });
+}
+
+export function startGracePeriod(telegramId: string, deadline: Date, percentOwned: number): void {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return;
+  db
+    .update(users)
+    .set({
+      graceWarnedAt: new Date().toISOString(),
+      graceDeadline: deadline.toISOString(),
+    })
+    .where(eq(users.telegramId, telegramId))
+    .run();
+  insertEvent(user.id, 'grace_started', { deadline: deadline.toISOString(), percentOwned });
+}
+
+export function clearGracePeriod(telegramId: string, reason: string): void {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user || !user.graceDeadline) return;
+  db
+    .update(users)
+    .set({
+      graceWarnedAt: null,
+      graceDeadline: null,
+    })
+    .where(eq(users.telegramId, telegramId))
+    .run();
+  insertEvent(user.id, 'grace_cleared', { reason });
+}
+
 export function setWhitelist(telegramId: string, isWhitelisted: boolean): void {
   const user = upsertUser(telegramId);
   if (!user) return;
@@ -267,6 +751,8 @@ export function clearVerification(telegramId: string): void {
     .set({
       verificationCode: null,
       verificationExpiresAt: null,
+      verificationMethod: null,
+      verificationRequestedAt: null,
     })
     .where(eq(users.telegramId, telegramId))
     .run();
@@ -277,6 +763,32 @@ export function getUserByTelegramId(telegramId: string): UserRow | null {
   return getUserRecord(telegramId);
 }
 
+export function getAllUsers(): UserRow[] {
+  ensureInitialized();
+  return db.select().from(users).all();
+}
+
+function createdWithin(column: unknown, range: DateRange): unknown[] {
+  const conditions = [];
+  if (range.since) {
+    conditions.push(sql`${column} >= ${toSqliteTimestamp(range.since)}`);
+  }
+  if (range.until) {
+    conditions.push(sql`${column} < ${toSqliteTimestamp(range.until)}`);
+  }
+  return conditions;
+}
+
+export function getUsersCreatedWithin(range: DateRange = {}): UserRow[] {
+  ensureInitialized();
+  return db
+    .select()
+    .from(users)
+    .where(and(...createdWithin(users.createdAt, range)))
+    .orderBy(users.id)
+    .all();
+}
+
 export function getVerifiedUsers(): UserRow[] {
   ensureInitialized();
   return db.select().from(users).where(eq(users.verified, 1)).all();
@@ -291,6 +803,16 @@ export function getPendingUsers(): UserRow[] {
     .all();
 }
 
+/** Every user with an open verification request, including verified users linking another wallet. */
+export function getOpenVerificationRequests(): UserRow[] {
+  ensureInitialized();
+  return db
+    .select()
+    .from(users)
+    .where(and(isNotNull(users.verificationCode), isNotNull(users.walletAddress)))
+    .all();
+}
+
 export function findUserByUsername(username: string): UserRow | null {
   ensureInitialized();
   return (
@@ -329,17 +851,412 @@ export function clearRequestedGroup(telegramId: string): void {
   insertEvent(user.id, 'group_cleared', {});
 }
 
-export function logEvent(
+/**
+ * Records that a transfer signature satisfied a verification. Returns false if
+ * the signature was already consumed, by this or any other account.
+ */
+export function consumeSignature(telegramId: string, consumed: ConsumedSignature): boolean {
+  const user = upsertUser(telegramId);
+  if (!user) return false;
+  const result = db
+    .insert(usedSignatures)
+    .values({
+      signature: consumed.signature,
+      userId: user.id,
+      walletAddress: consumed.walletAddress,
+      verificationMethod: consumed.verificationMethod,
+      asset: consumed.asset,
+      amount: consumed.amount,
+      blockTime: consumed.blockTime ?? null,
+    })
+    .onConflictDoNothing()
+    .run();
+  if (!result.changes) {
+    insertEvent(user.id, 'signature_replay_rejected', { signature: consumed.signature, walletAddress: consumed.walletAddress });
+    return false;
+  }
+  insertEvent(user.id, 'signature_consumed', { signature: consumed.signature, walletAddress: consumed.walletAddress });
+  return true;
+}
+
+export function isSignatureUsed(signature: string): boolean {
+  ensureInitialized();
+  return Boolean(db.select().from(usedSignatures).where(eq(usedSignatures.signature, signature)).get());
+}
+
+export function getUsedSignatures(telegramId: string): UsedSignatureRow[] {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return [];
+  return db.select().from(usedSignatures).where(eq(usedSignatures.userId, user.id)).orderBy(desc(usedSignatures.id)).all();
+}
+
+/** Queues the dust from a matched verification transfer for refunding. */
+export function recordRefund(
   telegramId: string,
-  eventType: string,
-  payload: Record<string, unknown> = {}
+  refund: { sourceSignature: string; walletAddress: string; asset: string; amount: string }
 ): void {
+  const user = upsertUser(telegramId);
+  if (!user) return;
+  const result = db
+    .insert(refunds)
+    .values({ ...refund, userId: user.id })
+    .onConflictDoNothing()
+    .run();
+  if (result.changes) {
+    insertEvent(user.id, 'refund_queued', { sourceSignature: refund.sourceSignature, asset: refund.asset, amount: refund.amount });
+  }
+}
+
+export function getRefundsByStatus(status: 'pending' | 'exported' | 'paid'): RefundRow[] {
+  ensureInitialized();
+  return db.select().from(refunds).where(eq(refunds.status, status)).orderBy(refunds.id).all();
+}
+
+export function getRefundBatch(batchId: string): RefundRow[] {
+  ensureInitialized();
+  return db.select().from(refunds).where(eq(refunds.batchId, batchId)).orderBy(refunds.id).all();
+}
+
+/** Moves every pending refund into a new batch and returns the batch. */
+export function createRefundBatch(batchId: string): RefundRow[] {
+  ensureInitialized();
+  db
+    .update(refunds)
+    .set({ status: 'exported', batchId, exportedAt: new Date().toISOString() })
+    .where(eq(refunds.status, 'pending'))
+    .run();
+  return getRefundBatch(batchId);
+}
+
+/**
+ * Marks a batch as paid. `refundSignatures` maps to the batch rows in order;
+ * a single signature covers the whole batch when one transaction paid it.
+ */
+export function markRefundBatchPaid(batchId: string, refundSignatures: string[]): RefundRow[] {
+  ensureInitialized();
+  const rows = getRefundBatch(batchId).filter((row) => row.status === 'exported');
+  const paidAt = new Date().toISOString();
+  rows.forEach((row, index) => {
+    const refundSignature = refundSignatures.length === 1 ? refundSignatures[0] : refundSignatures[index];
+    db.update(refunds).set({ status: 'paid', refundSignature, paidAt }).where(eq(refunds.id, row.id)).run();
+    insertEvent(row.userId, 'refund_paid', { sourceSignature: row.sourceSignature, refundSignature, batchId });
+  });
+  return getRefundBatch(batchId);
+}
+
+/** Opens a join request unless one is already pending, so repeats do not reset its timeout. */
+export function recordJoinRequest(telegramId: string, chatId: string): void {
+  const user = upsertUser(telegramId);
+  if (!user) return;
+  const open = db
+    .select()
+    .from(joinRequests)
+    .where(and(eq(joinRequests.userId, user.id), eq(joinRequests.chatId, chatId), isNull(joinRequests.resolvedAt)))
+    .get();
+  if (open) return;
+  db.insert(joinRequests).values({ userId: user.id, chatId, requestedAt: new Date().toISOString() }).run();
+}
+
+export function resolveJoinRequest(telegramId: string, chatId: string, resolution: string): void {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return;
+  const result = db
+    .update(joinRequests)
+    .set({ resolvedAt: new Date().toISOString(), resolution })
+    .where(and(eq(joinRequests.userId, user.id), eq(joinRequests.chatId, chatId), isNull(joinRequests.resolvedAt)))
+    .run();
+  if (result.changes) {
+    insertEvent(user.id, 'join_request_resolved', { chatId, resolution });
+  }
+}
+
+export function getOpenJoinRequests(): Array<JoinRequestRow & { telegramId: string }> {
+  ensureInitialized();
+  return db
+    .select()
+    .from(joinRequests)
+    .where(isNull(joinRequests.resolvedAt))
+    .all()
+    .map((request: JoinRequestRow) => {
+      const owner = db.select().from(users).where(eq(users.id, request.userId)).get();
+      return owner ? { ...request, telegramId: owner.telegramId } : null;
+    })
+    .filter(Boolean);
+}
+
+/** Starts the removal countdown for an unverified member; an open countdown is left as is. */
+export function recordUnverifiedMember(telegramId: string, chatId: string, deadline: Date): boolean {
+  const user = upsertUser(telegramId);
+  if (!user) return false;
+  const open = db
+    .select()
+    .from(unverifiedMembers)
+    .where(and(eq(unverifiedMembers.userId, user.id), eq(unverifiedMembers.chatId, chatId), isNull(unverifiedMembers.resolvedAt)))
+    .get();
+  if (open) return false;
+  db
+    .insert(unverifiedMembers)
+    .values({ userId: user.id, chatId, joinedAt: new Date().toISOString(), deadline: deadline.toISOString() })
+    .run();
+  insertEvent(user.id, 'unverified_member_detected', { chatId, deadline: deadline.toISOString() });
+  return true;
+}
+
+export function getDueUnverifiedMembers(now = new Date()): Array<UnverifiedMemberRow & { telegramId: string }> {
+  ensureInitialized();
+  return db
+    .select()
+    .from(unverifiedMembers)
+    .where(and(isNull(unverifiedMembers.resolvedAt), sql`${unverifiedMembers.deadline} <= ${now.toISOString()}`))
+    .all()
+    .map((row: UnverifiedMemberRow) => {
+      const owner = db.select().from(users).where(eq(users.id, row.userId)).get();
+      return owner ? { ...row, telegramId: owner.telegramId } : null;
+    })
+    .filter(Boolean);
+}
+
+export function resolveUnverifiedMember(telegramId: string, chatId: string, resolution: string): void {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return;
+  const result = db
+    .update(unverifiedMembers)
+    .set({ resolvedAt: new Date().toISOString(), resolution })
+    .where(and(eq(unverifiedMembers.userId, user.id), eq(unverifiedMembers.chatId, chatId), isNull(unverifiedMembers.resolvedAt)))
+    .run();
+  if (result.changes) {
+    insertEvent(user.id, 'unverified_member_resolved', { chatId, resolution });
+  }
+}
+
+/**
+ * Moves a user's membership in a chat to `status` and logs the transition.
+ * Returns the previous status, or undefined when nothing changed.
+ */
+export function recordMembership(
+  telegramId: string,
+  chatId: string,
+  status: MembershipStatus,
+  details: { inviteLink?: string | null; actorTelegramId?: string | null } = {}
+): MembershipStatus | null | undefined {
+  const user = upsertUser(telegramId);
+  if (!user) return undefined;
+  const now = new Date().toISOString();
+  const existing = db
+    .select()
+    .from(memberships)
+    .where(and(eq(memberships.userId, user.id), eq(memberships.chatId, chatId)))
+    .get();
+  const previous: MembershipStatus | null = existing ? existing.status : null;
+  if (previous === status) return undefined;
+  const wasPresent = previous !== null && PRESENT_MEMBERSHIP_STATUSES.includes(previous);
+  const isPresent = PRESENT_MEMBERSHIP_STATUSES.includes(status);
+  const updates: Partial<typeof memberships.$inferInsert> = { status, updatedAt: now };
+  if (isPresent && !wasPresent) {
+    updates.joinedAt = now;
+    updates.leftAt = null;
+    updates.inviteLink = details.inviteLink ?? null;
+  }
+  if (!isPresent && wasPresent) {
+    updates.leftAt = now;
+  }
+  if (existing) {
+    db.update(memberships).set(updates).where(eq(memberships.id, existing.id)).run();
+  } else {
+    db.insert(memberships).values({ userId: user.id, chatId, ...updates }).run();
+  }
+  insertEvent(user.id, 'membership_changed', {
+    chatId,
+    from: previous,
+    to: status,
+    inviteLink: details.inviteLink ?? null,
+    actorTelegramId: details.actorTelegramId ?? null,
+  });
+  return previous;
+}
+
+export function getMemberships(telegramId: string): MembershipRow[] {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return [];
+  return db.select().from(memberships).where(eq(memberships.userId, user.id)).all();
+}
+
+/** Users currently in `chatId` according to chat_member updates. */
+export function getChatMembers(chatId: string): Array<MembershipRow & { telegramId: string }> {
+  ensureInitialized();
+  return db
+    .select()
+    .from(memberships)
+    .where(eq(memberships.chatId, chatId))
+    .all()
+    .filter((row: MembershipRow) => PRESENT_MEMBERSHIP_STATUSES.includes(row.status as MembershipStatus))
+    .map((row: MembershipRow) => {
+      const owner = db.select().from(users).where(eq(users.id, row.userId)).get();
+      return owner ? { ...row, telegramId: owner.telegramId } : null;
+    })
+    .filter(Boolean);
+}
+
+export function getBotState(key: string): string | null {
+  ensureInitialized();
+  return db.select().from(botState).where(eq(botState.key, key)).get()?.value ?? null;
+}
+
+export function setBotState(key: string, value: string): void {
+  ensureInitialized();
+  const existing = db.select().from(botState).where(eq(botState.key, key)).get();
+  if (existing) {
+    db.update(botState).set({ value, updatedAt: new Date().toISOString() }).where(eq(botState.key, key)).run();
+    return;
+  }
+  db.insert(botState).values({ key, value }).run();
+}
+
+export function recordBalanceSnapshots(telegramId: string, snapshots: BalanceSnapshotInput[]): void {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user || !snapshots.length) return;
+  db
+    .insert(balanceSnapshots)
+    .values(snapshots.map((snapshot) => ({ ...snapshot, userId: user.id })))
+    .run();
+}
+
+/** A holder's snapshots in the range, oldest first, optionally for one mint. */
+export function getBalanceSnapshots(telegramId: string, range: DateRange = {}, mint?: string): BalanceSnapshotRow[] {
+  ensureInitialized();
+  const user = getUserRecord(telegramId);
+  if (!user) return [];
+  return db
+    .select()
+    .from(balanceSnapshots)
+    .where(
+      and(
+        eq(balanceSnapshots.userId, user.id),
+        mint ? eq(balanceSnapshots.mint, mint) : undefined,
+        ...createdWithin(balanceSnapshots.createdAt, range)
+      )
+    )
+    .orderBy(balanceSnapshots.id)
+    .all();
+}
+
+export function getSnapshotWindows(range: DateRange): SnapshotWindow[] {
+  ensureInitialized();
+  const boundIds = (aggregate: unknown): number[] =>
+    db
+      .select({ id: aggregate })
+      .from(balanceSnapshots)
+      .where(and(...createdWithin(balanceSnapshots.createdAt, range)))
+      .groupBy(balanceSnapshots.userId, balanceSnapshots.mint)
+      .all()
+      .map((row: { id: number }) => Number(row.id));
+  const ids = Array.from(
+    new Set([...boundIds(sql`min(${balanceSnapshots.id})`), ...boundIds(sql`max(${balanceSnapshots.id})`)])
+  );
+  if (!ids.length) return [];
+  const windows = new Map<string, SnapshotWindow>();
+  const telegramIds = new Map<number, string>();
+  const rows: BalanceSnapshotRow[] = db.select().from(balanceSnapshots).where(inArray(balanceSnapshots.id, ids)).orderBy(balanceSnapshots.id).all();
+  for (const row of rows) {
+    if (!telegramIds.has(row.userId)) {
+      telegramIds.set(row.userId, db.select().from(users).where(eq(users.id, row.userId)).get()?.telegramId ?? '');
+    }
+    const key = `${row.userId}:${row.mint}`;
+    const existing = windows.get(key);
+    if (existing) {
+      existing.last = row;
+    } else {
+      windows.set(key, { telegramId: telegramIds.get(row.userId), mint: row.mint, first: row, last: row });
+    }
+  }
+  return Array.from(windows.values());
+}
+
+/**
+ * Drops snapshots older than `retentionCutoff` and keeps only the last
+ * snapshot per holder, mint and day before `fullResolutionCutoff`. Returns the
+ * number of rows removed.
+ */
+export function compactBalanceSnapshots(fullResolutionCutoff: Date, retentionCutoff: Date): number {
+  ensureInitialized();
+  const expired = db
+    .delete(balanceSnapshots)
+    .where(sql`${balanceSnapshots.createdAt} < ${toSqliteTimestamp(retentionCutoff)}`)
+    .run();
+  const cutoff = toSqliteTimestamp(fullResolutionCutoff);
+  const downsampled = db
+    .delete(balanceSnapshots)
+    .where(
+      and(
+        sql`${balanceSnapshots.createdAt} < ${cutoff}`,
+        sql`${balanceSnapshots.id} NOT IN (
+          SELECT MAX(id) FROM balance_snapshots WHERE created_at < ${cutoff} GROUP BY user_id, mint, date(created_at)
+        )`
+      )
+    )
+    .run();
+  return expired.changes + downsampled.changes;
+}
+
+export function logEvent<T extends VerificationEventType>(telegramId: string, eventType: T, payload: EventPayloads[T]): void {
   ensureInitialized();
   const user = upsertUser(telegramId);
   if (!user) return;
   insertEvent(user.id, eventType, payload);
 }
 
+function parseEventPayload(raw: string | null): unknown {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+/** Events matching every given filter, newest first. */
+export function queryEvents(query: EventQuery = {}): VerificationEventRecord[] {
+  ensureInitialized();
+  const conditions: unknown[] = [];
+  if (query.telegramId !== undefined) {
+    const user = getUserRecord(query.telegramId);
+    if (!user) return [];
+    conditions.push(eq(verificationEvents.userId, user.id));
+  }
+  if (query.types?.length) {
+    conditions.push(inArray(verificationEvents.eventType, query.types));
+  }
+  conditions.push(...createdWithin(verificationEvents.createdAt, query));
+  let statement = db
+    .select()
+    .from(verificationEvents)
+    .where(and(...conditions))
+    .orderBy(desc(verificationEvents.createdAt), desc(verificationEvents.id));
+  if (query.limit) {
+    statement = statement.limit(query.limit);
+  }
+  const telegramIds = new Map<number, string>();
+  return statement.all().map((row: VerificationEventRow) => {
+    if (!telegramIds.has(row.userId)) {
+      const owner = db.select().from(users).where(eq(users.id, row.userId)).get();
+      telegramIds.set(row.userId, owner?.telegramId ?? '');
+    }
+    return {
+      id: row.id,
+      userId: row.userId,
+      telegramId: telegramIds.get(row.userId),
+      type: row.eventType,
+      payload: parseEventPayload(row.payload),
+      createdAt: row.createdAt,
+    } as VerificationEventRecord;
+  });
+}
+
 export default {
   initializeSchema,
   upsertUser,
@@ -349,11 +1266,62 @@ export default {
   setWhitelist,
   clearVerification,
   getUserByTelegramId,
+  getAllUsers,
+  getUsersCreatedWithin,
   getVerifiedUsers,
   getPendingUsers,
+  getOpenVerificationRequests,
   findUserByUsername,
   setRequestedGroup,
   clearRequestedGroup,
   recordInviteLink,
+  findInviteByLink,
+  getInvitesCreatedWithin,
+  getOpenInvites,
+  markInviteUsed,
+  markInviteRevoked,
+  getLinkedWallets,
+  linkWallet,
+  unlinkWallet,
+  getWalletOwner,
+  updateWalletBalances,
+  getGatingRule,
+  getGatingRules,
+  saveGatingRule,
+  deleteGatingRule,
+  recordAdmission,
+  revokeAdmission,
+  recordRejoinAttempt,
+  getAdmissions,
+  getActiveAdmissions,
+  getTierHistory,
+  getCurrentTier,
+  recordTierChange,
+  startGracePeriod,
+  clearGracePeriod,
+  consumeSignature,
+  isSignatureUsed,
+  getUsedSignatures,
+  recordRefund,
+  getRefundsByStatus,
+  getRefundBatch,
+  createRefundBatch,
+  markRefundBatchPaid,
+  recordMembership,
+  getMemberships,
+  getChatMembers,
+  recordUnverifiedMember,
+  getDueUnverifiedMembers,
+  resolveUnverifiedMember,
+  recordJoinRequest,
+  resolveJoinRequest,
+  getOpenJoinRequests,
+  getBotState,
+  setBotState,
+  recordBalanceSnapshots,
+  getBalanceSnapshots,
+  getSnapshotWindows,
+  compactBalanceSnapshots,
   logEvent,
+  queryEvents,
 };
\ No newline at end of file
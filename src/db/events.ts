@@ -0,0 +1,159 @@
+import type { MembershipStatus } from './drizzle';
+
+export interface EventRuleCondition {
+  mint: string;
+  thresholdType: string;
+  threshold: number;
+}
+
+export interface EventRuleSnapshot {
+  operator: string;
+  conditions: EventRuleCondition[];
+}
+
+/**
+ * Payload written for each event type. Rows written by older builds may be
+ * missing fields added later, so readers should treat optional data loosely.
+ */
+export interface EventPayloads {
+  verification_requested: {
+    walletAddress: string;
+    verificationCode: string;
+    verificationMethod: string;
+    expiresAt: string | null;
+  };
+  verified: { balance: number };
+  transfer_detected: { signature: string; asset: string; source: 'treasury_watcher' };
+  signature_consumed: { signature: string; walletAddress: string };
+  signature_replay_rejected: { signature: string; walletAddress: string };
+  wallet_linked: { walletAddress: string; previousOwnerTelegramIds: string[] };
+  wallet_unlinked: { walletAddress: string };
+  wallet_reassigned: { walletAddress: string; newOwnerTelegramId: string };
+  wallet_override: { walletAddress: string; adminId: string };
+  whitelist_updated: { isWhitelisted: boolean };
+  group_requested: { groupId: string };
+  group_cleared: Record<string, never>;
+  invite_link_created: { inviteLink: string; chatId: string | null; expiresAt: string | null };
+  invite_link_used: { inviteLink: string; chatId: string | null; usedBy: string };
+  invite_link_revoked: { inviteLink: string; chatId: string | null; reason: string };
+  invite_link_misuse: { chatId: string; inviteLink: string; intendedTelegramId: string | null };
+  join_request_resolved: { chatId: string; resolution: string };
+  admission_granted: { chatId: string };
+  admission_revoked: { chatId: string; reason: string };
+  ownership_revoked: { chatId: string; balance: number; percentOwned: number };
+  rejoined: { chatId: string };
+  rejoin_denied: { chatId: string };
+  tier_changed: { chatId: string; previousTier: string | null; newTier: string | null; percentOwned: number | null };
+  grace_started: { deadline: string; percentOwned: number };
+  grace_cleared: { reason: string };
+  membership_changed: {
+    chatId: string;
+    from: MembershipStatus | null;
+    to: MembershipStatus;
+    inviteLink: string | null;
+    actorTelegramId: string | null;
+  };
+  unverified_member_detected: { chatId: string; deadline: string };
+  unverified_member_resolved: { chatId: string; resolution: string };
+  unverified_member_removed: { chatId: string; reason: string };
+  member_scan: { chatIds: string[]; remove: boolean };
+  refund_queued: { sourceSignature: string; asset: string; amount: string };
+  refund_paid: { sourceSignature: string; refundSignature: string; batchId: string };
+  refund_batch_exported: { batchId: string };
+  refund_batch_paid: { batchId: string; refundSignatures: string[] };
+  gating_rule_updated: {
+    adminId: string;
+    chatId: string;
+    operator: string;
+    conditions: EventRuleCondition[];
+    previous: (EventRuleSnapshot & { isDefault: boolean }) | null;
+  };
+  gating_rule_deleted: { adminId: string; chatId: string; previous: EventRuleSnapshot };
+}
+
+export type VerificationEventType = keyof EventPayloads;
+
+export type VerificationEvent = {
+  [K in VerificationEventType]: { type: K; payload: EventPayloads[K] };
+}[VerificationEventType];
+
+export type VerificationEventRecord = VerificationEvent & {
+  id: number;
+  userId: number;
+  telegramId: string;
+  createdAt: string;
+};
+
+/** `since` is inclusive, `until` exclusive. */
+export interface DateRange {
+  since?: Date;
+  until?: Date;
+}
+
+export interface EventQuery extends DateRange {
+  telegramId?: string;
+  types?: VerificationEventType[];
+  limit?: number;
+}
+
+// Keyed by every event type so the compiler flags a type missing from the list.
+const EVENT_TYPE_FLAGS: Record<VerificationEventType, true> = {
+  verification_requested: true,
+  verified: true,
+  transfer_detected: true,
+  signature_consumed: true,
+  signature_replay_rejected: true,
+  wallet_linked: true,
+  wallet_unlinked: true,
+  wallet_reassigned: true,
+  wallet_override: true,
+  whitelist_updated: true,
+  group_requested: true,
+  group_cleared: true,
+  invite_link_created: true,
+  invite_link_used: true,
+  invite_link_revoked: true,
+  invite_link_misuse: true,
+  join_request_resolved: true,
+  admission_granted: true,
+  admission_revoked: true,
+  ownership_revoked: true,
+  rejoined: true,
+  rejoin_denied: true,
+  tier_changed: true,
+  grace_started: true,
+  grace_cleared: true,
+  membership_changed: true,
+  unverified_member_detected: true,
+  unverified_member_resolved: true,
+  unverified_member_removed: true,
+  member_scan: true,
+  refund_queued: true,
+  refund_paid: true,
+  refund_batch_exported: true,
+  refund_batch_paid: true,
+  gating_rule_updated: true,
+  gating_rule_deleted: true,
+};
+
+export const EVENT_TYPES = Object.keys(EVENT_TYPE_FLAGS) as VerificationEventType[];
+
+export function isEventType(value: string): value is VerificationEventType {
+  return Object.prototype.hasOwnProperty.call(EVENT_TYPE_FLAGS, value);
+}
+
+/** `created_at` is written by SQLite as `YYYY-MM-DD HH:MM:SS` in UTC. */
+export function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, '');
+}
+
+export function parseSqliteTimestamp(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+export default {
+  EVENT_TYPES,
+  isEventType,
+  toSqliteTimestamp,
+  parseSqliteTimestamp,
+};
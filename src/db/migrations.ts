@@ -0,0 +1,495 @@
+import type Database from 'better-sqlite3';
+import * as logger from '../utils/logger';
+
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+export interface PlannedStatement {
+  sql: string;
+  skipped: boolean;
+}
+
+export interface PlannedMigration {
+  version: number;
+  name: string;
+  statements: PlannedStatement[];
+}
+
+/**
+ * Ordered up-migrations. Never edit a released entry; append a new version.
+ * Statements must be safe to run against a database created by the old
+ * unversioned `CREATE TABLE IF NOT EXISTS` block: tables use IF NOT EXISTS and
+ * `ALTER TABLE ... ADD COLUMN` is skipped when the column is already present.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        telegram_id TEXT UNIQUE NOT NULL,
+        username TEXT,
+        wallet_address TEXT,
+        verification_code REAL,
+        verification_expires_at TEXT,
+        verified INTEGER DEFAULT 0,
+        verified_at TEXT,
+        last_balance REAL,
+        last_checked_at TEXT,
+        is_whitelisted INTEGER DEFAULT 0,
+        requested_group_id TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      )`,
+      `CREATE TABLE IF NOT EXISTS verification_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS group_invites (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        invite_link TEXT NOT NULL,
+        expires_at TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )`,
+      `CREATE TRIGGER IF NOT EXISTS users_updated_at
+      AFTER UPDATE ON users
+      BEGIN
+        UPDATE users SET updated_at = datetime('now') WHERE id = NEW.id;
+      END`,
+    ],
+  },
+  {
+    version: 2,
+    name: 'linked_wallets',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS linked_wallets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        wallet_address TEXT NOT NULL,
+        verified_at TEXT,
+        last_balance REAL,
+        last_checked_at TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        UNIQUE (user_id, wallet_address),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )`,
+      // Wallets proven before linked_wallets existed only live on the user row.
+      // Users with links or an open request are skipped: their wallet_address
+      // may be an unproven pending wallet.
+      `INSERT OR IGNORE INTO linked_wallets (user_id, wallet_address, verified_at, last_balance, last_checked_at)
+      SELECT id, wallet_address, verified_at, last_balance, last_checked_at
+      FROM users
+      WHERE verified = 1
+        AND wallet_address IS NOT NULL
+        AND verification_code IS NULL
+        AND NOT EXISTS (SELECT 1 FROM linked_wallets WHERE linked_wallets.user_id = users.id)`,
+    ],
+  },
+  {
+    version: 3,
+    name: 'gating_rules',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS gating_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chat_id TEXT UNIQUE NOT NULL,
+        operator TEXT NOT NULL DEFAULT 'and',
+        conditions TEXT NOT NULL,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      )`,
+      `CREATE TABLE IF NOT EXISTS group_admissions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        chat_id TEXT NOT NULL,
+        admitted_at TEXT NOT NULL,
+        revoked_at TEXT,
+        revoke_reason TEXT,
+        UNIQUE (user_id, chat_id),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )`,
+      `CREATE TRIGGER IF NOT EXISTS gating_rules_updated_at
+      AFTER UPDATE ON gating_rules
+      BEGIN
+        UPDATE gating_rules SET updated_at = datetime('now') WHERE id = NEW.id;
+      END`,
+    ],
+  },
+  {
+    version: 4,
+    name: 'grace_period',
+    statements: [
+      'ALTER TABLE users ADD COLUMN grace_warned_at TEXT',
+      'ALTER TABLE users ADD COLUMN grace_deadline TEXT',
+    ],
+  },
+  {
+    version: 5,
+    name: 'tier_history',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS tier_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        chat_id TEXT NOT NULL,
+        previous_tier TEXT,
+        new_tier TEXT,
+        percent_owned REAL,
+        created_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )`,
+    ],
+  },
+  {
+    version: 6,
+    name: 'verification_method',
+    statements: [
+      'ALTER TABLE users ADD COLUMN verification_method TEXT',
+      'ALTER TABLE users ADD COLUMN verification_requested_at TEXT',
+    ],
+  },
+  {
+    // SQLite cannot change a column type in place, and REAL affinity coerces
+    // decimal codes back into floats, so the table is rebuilt.
+    version: 7,
+    name: 'verification_code_text',
+    statements: [
+      `CREATE TABLE users_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        telegram_id TEXT UNIQUE NOT NULL,
+        username TEXT,
+        wallet_address TEXT,
+        verification_code TEXT,
+        verification_expires_at TEXT,
+        verification_method TEXT,
+        verification_requested_at TEXT,
+        verified INTEGER DEFAULT 0,
+        verified_at TEXT,
+        last_balance REAL,
+        last_checked_at TEXT,
+        is_whitelisted INTEGER DEFAULT 0,
+        requested_group_id TEXT,
+        grace_warned_at TEXT,
+        grace_deadline TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      )`,
+      `INSERT INTO users_new (
+        id, telegram_id, username, wallet_address, verification_code, verification_expires_at,
+        verification_method, verification_requested_at, verified, verified_at, last_balance,
+        last_checked_at, is_whitelisted, requested_group_id, grace_warned_at, grace_deadline,
+        created_at, updated_at
+      )
+      SELECT
+        id, telegram_id, username, wallet_address,
+        CASE typeof(verification_code)
+          WHEN 'real' THEN rtrim(rtrim(printf('%.15f', verification_code), '0'), '.')
+          ELSE CAST(verification_code AS TEXT)
+        END,
+        verification_expires_at, verification_method, verification_requested_at, verified, verified_at,
+        last_balance, last_checked_at, is_whitelisted, requested_group_id, grace_warned_at, grace_deadline,
+        created_at, updated_at
+      FROM users`,
+      'DROP TABLE users',
+      'ALTER TABLE users_new RENAME TO users',
+      `CREATE TRIGGER IF NOT EXISTS users_updated_at
+      AFTER UPDATE ON users
+      BEGIN
+        UPDATE users SET updated_at = datetime('now') WHERE id = NEW.id;
+      END`,
+    ],
+  },
+  {
+    version: 8,
+    name: 'bot_state',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS bot_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT DEFAULT (datetime('now'))
+      )`,
+    ],
+  },
+  {
+    version: 9,
+    name: 'used_signatures',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS used_signatures (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        signature TEXT NOT NULL UNIQUE,
+        user_id INTEGER NOT NULL,
+        wallet_address TEXT NOT NULL,
+        verification_method TEXT,
+        asset TEXT,
+        amount TEXT,
+        block_time INTEGER,
+        created_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )`,
+    ],
+  },
+  {
+    version: 10,
+    name: 'refunds',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS refunds (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source_signature TEXT NOT NULL UNIQUE,
+        user_id INTEGER NOT NULL,
+        wallet_address TEXT NOT NULL,
+        asset TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        batch_id TEXT,
+        refund_signature TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        exported_at TEXT,
+        paid_at TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )`,
+    ],
+  },
+  {
+    version: 11,
+    name: 'invite_lifecycle',
+    statements: [
+      'ALTER TABLE group_invites ADD COLUMN chat_id TEXT',
+      'ALTER TABLE group_invites ADD COLUMN used_at TEXT',
+      'ALTER TABLE group_invites ADD COLUMN used_by TEXT',
+      'ALTER TABLE group_invites ADD COLUMN revoked_at TEXT',
+    ],
+  },
+  {
+    version: 12,
+    name: 'join_requests',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS join_requests (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        chat_id TEXT NOT NULL,
+        requested_at TEXT NOT NULL,
+        resolved_at TEXT,
+        resolution TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )`,
+    ],
+  },
+  {
+    version: 13,
+    name: 'unverified_members',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS unverified_members (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        chat_id TEXT NOT NULL,
+        joined_at TEXT NOT NULL,
+        deadline TEXT NOT NULL,
+        resolved_at TEXT,
+        resolution TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )`,
+    ],
+  },
+  {
+    version: 14,
+    name: 'memberships',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS memberships (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        chat_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        invite_link TEXT,
+        joined_at TEXT,
+        left_at TEXT,
+        updated_at TEXT NOT NULL,
+        UNIQUE (user_id, chat_id),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )`,
+    ],
+  },
+  {
+    version: 15,
+    name: 'verification_event_indexes',
+    statements: [
+      'CREATE INDEX IF NOT EXISTS verification_events_user_time ON verification_events (user_id, created_at)',
+      'CREATE INDEX IF NOT EXISTS verification_events_type_time ON verification_events (event_type, created_at)',
+      'CREATE INDEX IF NOT EXISTS verification_events_time ON verification_events (created_at)',
+    ],
+  },
+  {
+    version: 16,
+    name: 'balance_snapshots',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS balance_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        mint TEXT NOT NULL,
+        raw_balance TEXT NOT NULL,
+        raw_supply TEXT NOT NULL,
+        decimals INTEGER NOT NULL,
+        balance REAL NOT NULL,
+        supply REAL NOT NULL,
+        percent_owned REAL NOT NULL,
+        created_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS balance_snapshots_user_mint_time ON balance_snapshots (user_id, mint, created_at)',
+      'CREATE INDEX IF NOT EXISTS balance_snapshots_time ON balance_snapshots (created_at)',
+    ],
+  },
+  {
+    version: 17,
+    name: 'unique_wallet_owner',
+    statements: [
+      // Links made before single ownership was enforced: the latest one wins, as
+      // it would have at the owner's next verification.
+      'DELETE FROM linked_wallets WHERE id NOT IN (SELECT MAX(id) FROM linked_wallets GROUP BY wallet_address)',
+      'CREATE UNIQUE INDEX IF NOT EXISTS linked_wallets_wallet_address ON linked_wallets (wallet_address)',
+    ],
+  },
+  {
+    version: 18,
+    name: 'rejoin_attempts',
+    statements: [
+      'ALTER TABLE group_admissions ADD COLUMN last_rejoin_attempt_at TEXT',
+      // Failed /rejoin attempts used to be kept as one bot_state key per user and chat.
+      `UPDATE group_admissions
+      SET last_rejoin_attempt_at = (
+        SELECT value FROM bot_state
+        WHERE key = 'rejoin_attempt:' || (SELECT telegram_id FROM users WHERE users.id = group_admissions.user_id) || ':' || group_admissions.chat_id
+      )
+      WHERE last_rejoin_attempt_at IS NULL`,
+      "DELETE FROM bot_state WHERE key LIKE 'rejoin_attempt:%'",
+    ],
+  },
+];
+
+const ADD_COLUMN_PATTERN = /^\s*ALTER\s+TABLE\s+(\w+)\s+ADD\s+COLUMN\s+(\w+)/i;
+
+export function getLatestVersion(): number {
+  return MIGRATIONS.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+}
+
+function hasMigrationsTable(sqlite: Database): boolean {
+  return Boolean(sqlite.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'").get());
+}
+
+export function getCurrentVersion(sqlite: Database): number {
+  if (!hasMigrationsTable(sqlite)) return 0;
+  const row = sqlite.prepare('SELECT MAX(version) AS version FROM schema_migrations').get();
+  return Number(row?.version ?? 0);
+}
+
+function hasColumn(sqlite: Database, table: string, column: string): boolean {
+  return sqlite
+    .prepare(`PRAGMA table_info(${table})`)
+    .all()
+    .some((info) => String(info.name).toLowerCase() === column.toLowerCase());
+}
+
+function isSatisfied(sqlite: Database, statement: string): boolean {
+  const match = ADD_COLUMN_PATTERN.exec(statement);
+  return Boolean(match) && hasColumn(sqlite, match[1], match[2]);
+}
+
+function assertNotNewer(sqlite: Database): number {
+  const current = getCurrentVersion(sqlite);
+  const latest = getLatestVersion();
+  if (current > latest) {
+    throw new Error(
+      `Database schema version ${current} is newer than this build supports (${latest}). Upgrade the bot before starting it against this database.`
+    );
+  }
+  return current;
+}
+
+/**
+ * Pending migrations without touching the database. Column additions that an
+ * older unversioned schema already has are flagged as skipped.
+ */
+export function planMigrations(sqlite: Database): PlannedMigration[] {
+  assertNotNewer(sqlite);
+  const applied = hasMigrationsTable(sqlite)
+    ? new Set(sqlite.prepare('SELECT version FROM schema_migrations').all().map((row) => Number(row.version)))
+    : new Set<number>();
+  return MIGRATIONS.filter((migration) => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version)
+    .map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      statements: migration.statements.map((statement) => ({ sql: statement, skipped: isSatisfied(sqlite, statement) })),
+    }));
+}
+
+export function formatMigrationPlan(plan: PlannedMigration[]): string {
+  if (!plan.length) return '-- Schema is up to date.';
+  return plan
+    .map((migration) =>
+      [
+        `-- ${migration.version}: ${migration.name}`,
+        ...migration.statements.map((statement) =>
+          statement.skipped ? `-- skipped, column already exists: ${statement.sql}` : `${statement.sql};`
+        ),
+      ].join('\n')
+    )
+    .join('\n\n');
+}
+
+/**
+ * Applies every pending migration in its own transaction and returns the
+ * versions applied. Foreign keys are switched off while migrating so tables can
+ * be rebuilt; the pragma is a no-op inside a transaction.
+ */
+export function runMigrations(sqlite: Database): number[] {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT (datetime('now'))
+    );
+  `);
+  const plan = planMigrations(sqlite);
+  const applied: number[] = [];
+  sqlite.pragma('foreign_keys = OFF');
+  try {
+    for (const migration of plan) {
+      sqlite.exec('BEGIN');
+      try {
+        for (const statement of migration.statements) {
+          // Re-checked here: an earlier statement in the same migration may have added the column.
+          if (!isSatisfied(sqlite, statement.sql)) {
+            sqlite.exec(statement.sql);
+          }
+        }
+        sqlite.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+        sqlite.exec('COMMIT');
+      } catch (error) {
+        sqlite.exec('ROLLBACK');
+        throw new Error(`Schema migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`);
+      }
+      applied.push(migration.version);
+      logger.log(`Applied schema migration ${migration.version} (${migration.name}).`);
+    }
+  } finally {
+    sqlite.pragma('foreign_keys = ON');
+  }
+  return applied;
+}
+
+export default {
+  MIGRATIONS,
+  getLatestVersion,
+  getCurrentVersion,
+  planMigrations,
+  formatMigrationPlan,
+  runMigrations,
+};
@@ -0,0 +1,40 @@
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { config } from './config';
+import { formatMigrationPlan, planMigrations } from './db/migrations';
+import * as logger from './utils/logger';
+
+/**
+ * Prints the pending SQL from a read-only connection of its own: importing
+ * `db/drizzle` opens (and would create) the database file.
+ */
+function printPendingMigrations(): void {
+  if (!fs.existsSync(config.databasePath)) {
+    throw new Error(`No database found at ${config.databasePath}. Check DATABASE_PATH.`);
+  }
+  const sqlite = new Database(config.databasePath, { readonly: true, fileMustExist: true });
+  console.log(formatMigrationPlan(planMigrations(sqlite)));
+}
+
+/**
+ * Applies pending schema migrations without starting the bot. With
+ * `--dry-run` the pending SQL is printed and nothing is written.
+ */
+async function main(): Promise<void> {
+  if (process.argv.includes('--dry-run')) {
+    printPendingMigrations();
+    return;
+  }
+  const db = await import('./db/drizzle');
+  db.initializeSchema();
+  logger.log('Database schema is up to date.');
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    logger.error('Migration failed', error);
+    process.exit(1);
+  });
+}
+
+export default main;
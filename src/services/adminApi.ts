@@ -0,0 +1,317 @@
+import http from 'http';
+import crypto from 'crypto';
+import { config } from '../config';
+import * as db from '../db/drizzle';
+import * as logger from '../utils/logger';
+import { parseDay, toDayRange } from '../utils/dates';
+import { isEventType, type VerificationEventRecord, type VerificationEventType } from '../db/events';
+import { buildExportRows, type ExportRow } from './export';
+import type { UserRow } from '../db/drizzle';
+
+export interface RecheckResult {
+  chatId: string;
+  isQualified: boolean;
+  balance: number;
+  percentOwned: number;
+}
+
+/** Actions with Telegram side effects stay in bot.ts; the API only calls into them. */
+export interface AdminApiHandlers {
+  setWhitelist: (telegramId: string, isWhitelisted: boolean) => Promise<void>;
+  recheckUser: (telegramId: string) => Promise<RecheckResult[] | null>;
+}
+
+interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_EVENT_LIMIT = 100;
+const MAX_EVENT_LIMIT = 1000;
+const DASHBOARD_EVENT_LIMIT = 50;
+const INVALID_BODY: ApiResponse = { status: 400, body: { error: 'Request body must be a JSON object of at most 64 KB.' } };
+
+let server: http.Server | null = null;
+
+function digest(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+/**
+ * Accepts `Authorization: Bearer <token>` for tooling. HTTP Basic auth with the
+ * token as password is only allowed where `allowBasic` is set, i.e. for the
+ * read-only dashboard: browsers re-send cached Basic credentials on cross-site
+ * requests, so accepting them on the API would allow request forgery.
+ */
+function isAuthorized(header: string | undefined, allowBasic: boolean): boolean {
+  if (!header) return false;
+  const [scheme, credentials = ''] = header.split(' ');
+  let presented = '';
+  if (scheme.toLowerCase() === 'bearer') {
+    presented = credentials;
+  } else if (allowBasic && scheme.toLowerCase() === 'basic') {
+    const decoded = Buffer.from(credentials, 'base64').toString('utf8');
+    presented = decoded.slice(decoded.indexOf(':') + 1);
+  }
+  return Boolean(presented) && crypto.timingSafeEqual(digest(presented), digest(config.adminApiToken));
+}
+
+function resolveUser(identifier: unknown): UserRow | null {
+  if (typeof identifier !== 'string' && typeof identifier !== 'number') return null;
+  const value = String(identifier).trim();
+  if (!value) return null;
+  return value.startsWith('@') ? db.findUserByUsername(value.slice(1)) : db.getUserByTelegramId(value);
+}
+
+function parseRange(params: URLSearchParams): ReturnType<typeof toDayRange> | string {
+  const from = params.get('from');
+  const to = params.get('to');
+  const since = from ? parseDay(from) : null;
+  const until = to ? parseDay(to) : null;
+  if ((from && !since) || (to && !until)) return 'from and to must be YYYY-MM-DD dates.';
+  return toDayRange(since, until);
+}
+
+/** Resolves null when the body is too large or not a JSON object. */
+function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown> | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        resolve(null);
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const text = Buffer.concat(chunks).toString('utf8');
+        const parsed = text ? JSON.parse(text) : {};
+        resolve(parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null);
+      } catch {
+        resolve(null);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function toPendingVerification(user: UserRow): Record<string, unknown> {
+  return {
+    telegram_id: String(user.telegramId),
+    username: user.username,
+    wallet: user.walletAddress,
+    method: user.verificationMethod ?? 'amount',
+    requested_at: user.verificationRequestedAt,
+    expires_at: user.verificationExpiresAt,
+    requested_group_id: user.requestedGroupId,
+  };
+}
+
+function getMembers(params: URLSearchParams): ApiResponse {
+  const range = parseRange(params);
+  if (typeof range === 'string') return { status: 400, body: { error: range } };
+  const verified = params.get('verified');
+  const members = buildExportRows('members', range).filter(
+    (row) => verified === null || row.verified === (verified === 'true' || verified === '1')
+  );
+  return { status: 200, body: { members } };
+}
+
+function toEventRow(event: VerificationEventRecord): ExportRow {
+  return {
+    id: event.id,
+    created_at: event.createdAt,
+    telegram_id: event.telegramId,
+    event_type: event.type,
+    payload: event.payload,
+  };
+}
+
+function getEvents(params: URLSearchParams): ApiResponse {
+  const range = parseRange(params);
+  if (typeof range === 'string') return { status: 400, body: { error: range } };
+  const types = (params.get('type') ?? '')
+    .split(',')
+    .map((type) => type.trim())
+    .filter(Boolean);
+  const unknownType = types.find((type) => !isEventType(type));
+  if (unknownType) return { status: 400, body: { error: `Unknown event type ${unknownType}.` } };
+  // SQLite reads a negative LIMIT as no limit at all, so clamp rather than trust the query.
+  const requested = Math.floor(Number(params.get('limit') || DEFAULT_EVENT_LIMIT));
+  const limit = Number.isFinite(requested) ? Math.min(Math.max(requested, 1), MAX_EVENT_LIMIT) : DEFAULT_EVENT_LIMIT;
+  let telegramId: string | undefined;
+  if (params.get('user')) {
+    const user = resolveUser(params.get('user'));
+    if (!user) return { status: 404, body: { error: 'User not found.' } };
+    telegramId = String(user.telegramId);
+  }
+  const events = db.queryEvents({ telegramId, types: types as VerificationEventType[], ...range, limit }).map(toEventRow);
+  return { status: 200, body: { events } };
+}
+
+async function postWhitelist(body: Record<string, unknown> | null, handlers: AdminApiHandlers): Promise<ApiResponse> {
+  if (!body) return INVALID_BODY;
+  const identifier = typeof body.user === 'string' || typeof body.user === 'number' ? String(body.user) : '';
+  // Unknown numeric IDs are allowed, like /whitelist: the account may not have talked to the bot yet.
+  const telegramId = resolveUser(identifier)?.telegramId ?? (/^\d+$/.test(identifier) ? identifier : null);
+  if (!telegramId) return { status: 404, body: { error: 'User not found.' } };
+  const isWhitelisted = body.whitelisted !== false;
+  await handlers.setWhitelist(String(telegramId), isWhitelisted);
+  logger.log(`Admin API: ${isWhitelisted ? 'whitelisted' : 'removed from whitelist'} ${telegramId}.`);
+  return { status: 200, body: { telegram_id: String(telegramId), whitelisted: isWhitelisted } };
+}
+
+async function postRecheck(body: Record<string, unknown> | null, handlers: AdminApiHandlers): Promise<ApiResponse> {
+  if (!body) return INVALID_BODY;
+  const user = resolveUser(body.user);
+  if (!user) return { status: 404, body: { error: 'User not found.' } };
+  const results = await handlers.recheckUser(String(user.telegramId));
+  if (!results) {
+    return { status: 409, body: { error: 'Only verified, non-whitelisted users are re-checked.' } };
+  }
+  return { status: 200, body: { telegram_id: String(user.telegramId), results } };
+}
+
+async function routeApi(req: http.IncomingMessage, url: URL, handlers: AdminApiHandlers): Promise<ApiResponse> {
+  const route = `${req.method} ${url.pathname.replace(/\/+$/, '')}`;
+  switch (route) {
+    case 'GET /api/members':
+      return getMembers(url.searchParams);
+    case 'GET /api/verifications/pending':
+      return { status: 200, body: { pending: db.getPendingUsers().map(toPendingVerification) } };
+    case 'GET /api/events':
+      return getEvents(url.searchParams);
+    case 'GET /api/whitelist':
+      return {
+        status: 200,
+        body: {
+          whitelisted: db
+            .getAllUsers()
+            .filter((user) => user.isWhitelisted)
+            .map((user) => ({ telegram_id: String(user.telegramId), username: user.username })),
+        },
+      };
+    case 'POST /api/whitelist':
+      return postWhitelist(await readJsonBody(req), handlers);
+    case 'POST /api/recheck':
+      return postRecheck(await readJsonBody(req), handlers);
+    default:
+      return { status: 404, body: { error: 'Not found.' } };
+  }
+}
+
+function escapeHtml(value: unknown): string {
+  let text = '';
+  if (Array.isArray(value)) {
+    text = value.join(', ');
+  } else if (value !== null && typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else if (value !== null && value !== undefined) {
+    text = String(value);
+  }
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function renderTable(columns: string[], rows: ExportRow[]): string {
+  if (!rows.length) return '<p>None.</p>';
+  const head = columns.map((column) => `<th>${escapeHtml(column)}</th>`).join('');
+  const body = rows
+    .map((row) => `<tr>${columns.map((column) => `<td>${escapeHtml(row[column])}</td>`).join('')}</tr>`)
+    .join('\n');
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+function renderDashboard(): string {
+  const members = buildExportRows('members');
+  const verified = members.filter((row) => row.verified);
+  const pending = db.getPendingUsers().map(toPendingVerification);
+  const events = db.queryEvents({ limit: DASHBOARD_EVENT_LIMIT }).map(toEventRow);
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>SafeSol gating admin</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+table { border-collapse: collapse; margin-bottom: 2rem; font-size: 0.85rem; }
+th, td { border: 1px solid #ccc; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f3f3f3; }
+td { max-width: 32rem; overflow-wrap: anywhere; }
+</style>
+</head>
+<body>
+<h1>SafeSol gating admin</h1>
+<p>${verified.length} verified member(s), ${pending.length} pending verification(s), ${members.length} known account(s). Generated ${escapeHtml(new Date().toISOString())}.</p>
+<h2>Verified members</h2>
+${renderTable(['telegram_id', 'username', 'wallets', 'last_balance', 'last_checked_at', 'in_chats', 'whitelisted'], verified)}
+<h2>Pending verifications</h2>
+${renderTable(['telegram_id', 'username', 'wallet', 'method', 'requested_at', 'expires_at'], pending)}
+<h2>Latest ${DASHBOARD_EVENT_LIMIT} events</h2>
+${renderTable(['created_at', 'telegram_id', 'event_type', 'payload'], events)}
+</body>
+</html>`;
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse, handlers: AdminApiHandlers): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const isDashboard = url.pathname === '/' || url.pathname === '/dashboard';
+  if (!isAuthorized(req.headers.authorization, isDashboard && req.method === 'GET')) {
+    res.writeHead(401, {
+      'Content-Type': 'application/json',
+      ...(isDashboard ? { 'WWW-Authenticate': 'Basic realm="SafeSol admin", charset="UTF-8"' } : {}),
+    });
+    res.end(JSON.stringify({ error: 'Unauthorized.' }));
+    return;
+  }
+  if (isDashboard) {
+    if (req.method !== 'GET') {
+      res.writeHead(405, { Allow: 'GET' });
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(renderDashboard());
+    return;
+  }
+  // HTML forms cannot send application/json, so this also blocks cross-site form posts.
+  const contentType = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+  if (req.method === 'POST' && contentType !== 'application/json') {
+    res.writeHead(415, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'POST bodies must be sent as application/json.' }));
+    return;
+  }
+  const response = await routeApi(req, url, handlers);
+  res.writeHead(response.status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(response.body, null, 2));
+}
+
+/** Starts the admin API when ADMIN_API_PORT is set. Refuses to listen without a token. */
+export function startAdminApi(handlers: AdminApiHandlers): void {
+  if (!config.adminApiPort || server) return;
+  if (!config.adminApiToken) {
+    logger.warn('ADMIN_API_PORT is set but ADMIN_API_TOKEN is empty; the admin API stays disabled.');
+    return;
+  }
+  server = http.createServer((req, res) => {
+    handleRequest(req, res, handlers).catch((error) => {
+      logger.error('Admin API request failed', error);
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+      }
+      res.end(JSON.stringify({ error: 'Internal error.' }));
+    });
+  });
+  server.on('error', (error) => logger.error('Admin API server error', error));
+  server.listen(config.adminApiPort, config.adminApiHost, () => {
+    logger.log(`Admin API listening on http://${config.adminApiHost}:${config.adminApiPort}.`);
+  });
+}
+
+export default {
+  startAdminApi,
+};
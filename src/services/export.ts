@@ -0,0 +1,122 @@
+import * as db from '../db/drizzle';
+import { toCsv, type CsvValue } from '../utils/csv';
+import type { DateRange } from '../db/events';
+import { getExportContentType, type ExportFormat } from '../utils/exportFormat';
+
+export type ExportKind = 'members' | 'events' | 'invites';
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+  rowCount: number;
+}
+
+export type ExportRow = Record<string, unknown>;
+
+const EXPORT_KINDS: ExportKind[] = ['members', 'events', 'invites'];
+
+export function parseExportKind(value: string | undefined): ExportKind | null {
+  const kind = (value || '').toLowerCase();
+  return EXPORT_KINDS.find((candidate) => candidate === kind) ?? null;
+}
+
+function buildMemberRows(range: DateRange): ExportRow[] {
+  return db.getUsersCreatedWithin(range).map((user) => {
+    const telegramId = String(user.telegramId);
+    const wallets = db.getLinkedWallets(telegramId);
+    const chats = db
+      .getMemberships(telegramId)
+      .filter((membership) => membership.status === 'joined' || membership.status === 'restricted')
+      .map((membership) => membership.chatId);
+    return {
+      telegram_id: telegramId,
+      username: user.username,
+      verified: Boolean(user.verified),
+      verified_at: user.verifiedAt,
+      whitelisted: Boolean(user.isWhitelisted),
+      wallets: wallets.map((wallet) => wallet.walletAddress),
+      wallet_balances: wallets.map((wallet) => wallet.lastBalance ?? 0),
+      last_balance: user.lastBalance,
+      last_checked_at: user.lastCheckedAt,
+      in_chats: chats,
+      pending_wallet: user.verificationCode !== null ? user.walletAddress : null,
+      created_at: user.createdAt,
+    };
+  });
+}
+
+function buildEventRows(range: DateRange): ExportRow[] {
+  // Oldest first, which is what a reconciliation sheet expects.
+  return db
+    .queryEvents(range)
+    .reverse()
+    .map((event) => ({
+      id: event.id,
+      created_at: event.createdAt,
+      telegram_id: event.telegramId,
+      event_type: event.type,
+      payload: event.payload,
+    }));
+}
+
+function buildInviteRows(range: DateRange): ExportRow[] {
+  return db.getInvitesCreatedWithin(range).map(({ invite, owner }) => ({
+    id: invite.id,
+    created_at: invite.createdAt,
+    telegram_id: owner?.telegramId ?? null,
+    chat_id: invite.chatId,
+    invite_link: invite.inviteLink,
+    expires_at: invite.expiresAt,
+    used_at: invite.usedAt,
+    used_by: invite.usedBy,
+    revoked_at: invite.revokedAt,
+  }));
+}
+
+function toCsvCell(value: unknown): CsvValue {
+  if (Array.isArray(value)) return value.join(';');
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return value as CsvValue;
+}
+
+function formatStamp(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function buildFilename(kind: ExportKind, range: DateRange, format: ExportFormat, now: Date): string {
+  const from = range.since ? formatStamp(range.since) : 'start';
+  // `until` is exclusive; name the file after the last day it covers.
+  const to = range.until ? formatStamp(new Date(range.until.getTime() - 1)) : formatStamp(now);
+  return `${kind}-${from}-${to}.${format}`;
+}
+
+/** Rows of one export, filtered on their `created_at`. */
+export function buildExportRows(kind: ExportKind, range: DateRange = {}): ExportRow[] {
+  return kind === 'members' ? buildMemberRows(range) : kind === 'events' ? buildEventRows(range) : buildInviteRows(range);
+}
+
+/** Builds a spreadsheet-friendly export of one table; list columns are `;`-separated in CSV. */
+export function buildExport(kind: ExportKind, format: ExportFormat, range: DateRange = {}, now = new Date()): ExportFile {
+  const rows = buildExportRows(kind, range);
+  const filename = buildFilename(kind, range, format, now);
+  if (format === 'json') {
+    return { filename, contentType: getExportContentType(format), content: JSON.stringify(rows, null, 2), rowCount: rows.length };
+  }
+  const columns = rows.length ? Object.keys(rows[0]) : [];
+  return {
+    filename,
+    contentType: getExportContentType(format),
+    content: toCsv(
+      columns,
+      rows.map((row) => columns.map((column) => toCsvCell(row[column])))
+    ),
+    rowCount: rows.length,
+  };
+}
+
+export default {
+  parseExportKind,
+  buildExportRows,
+  buildExport,
+};
@@ -0,0 +1,183 @@
+import { config } from '../config';
+import * as db from '../db/drizzle';
+import { verifyOwnership, type BalanceSource, type OwnershipResult } from './solana';
+import * as logger from '../utils/logger';
+import { toRawAmount } from '../utils/amount';
+
+export type ThresholdType = 'percent' | 'amount';
+export type RuleOperator = 'and' | 'or';
+
+export interface GatingCondition {
+  mint: string;
+  thresholdType: ThresholdType;
+  threshold: number;
+}
+
+export interface GatingRule {
+  chatId: string;
+  operator: RuleOperator;
+  conditions: GatingCondition[];
+  isDefault: boolean;
+}
+
+export interface ConditionResult {
+  condition: GatingCondition;
+  ownership: OwnershipResult;
+  isMet: boolean;
+}
+
+export interface RuleEvaluation {
+  rule: GatingRule;
+  isQualified: boolean;
+  results: ConditionResult[];
+  primary: ConditionResult;
+}
+
+function isThresholdType(value: unknown): value is ThresholdType {
+  return value === 'percent' || value === 'amount';
+}
+
+function parseConditions(raw: string): GatingCondition[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    logger.warn('Ignoring gating rule with malformed conditions', error);
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+  return parsed
+    .filter(
+      (entry): entry is GatingCondition =>
+        Boolean(entry) &&
+        typeof entry.mint === 'string' &&
+        Boolean(entry.mint) &&
+        isThresholdType(entry.thresholdType) &&
+        typeof entry.threshold === 'number' &&
+        Number.isFinite(entry.threshold)
+    )
+    .map((entry) => ({ mint: entry.mint, thresholdType: entry.thresholdType, threshold: entry.threshold }));
+}
+
+function getDefaultRule(chatId: string): GatingRule | null {
+  if (!config.tokenMint) return null;
+  return {
+    chatId,
+    operator: 'and',
+    conditions: [{ mint: config.tokenMint, thresholdType: 'percent', threshold: config.requiredPercent }],
+    isDefault: true,
+  };
+}
+
+/**
+ * Returns the persisted rule for a chat, falling back to the env-configured
+ * mint and threshold when the chat has none.
+ */
+export function resolveRule(chatId?: string | number | null): GatingRule | null {
+  const key = chatId === undefined || chatId === null || chatId === '' ? config.groupId : String(chatId);
+  const row = key ? db.getGatingRule(key) : null;
+  if (row) {
+    const conditions = parseConditions(row.conditions);
+    if (conditions.length) {
+      return {
+        chatId: row.chatId,
+        operator: row.operator === 'or' ? 'or' : 'and',
+        conditions,
+        isDefault: false,
+      };
+    }
+  }
+  return getDefaultRule(key || '');
+}
+
+/**
+ * Parses a `<mint>:<threshold>` spec. Thresholds ending in `%` are a percent
+ * of supply, anything else is an absolute token amount.
+ */
+export function parseConditionSpec(spec: string): GatingCondition | null {
+  const separator = spec.lastIndexOf(':');
+  if (separator <= 0) return null;
+  const mint = spec.slice(0, separator).trim();
+  const rawThreshold = spec.slice(separator + 1).trim();
+  if (!mint || !rawThreshold) return null;
+  const isPercent = rawThreshold.endsWith('%');
+  const value = Number(isPercent ? rawThreshold.slice(0, -1) : rawThreshold);
+  if (!Number.isFinite(value) || value < 0) return null;
+  if (isPercent) {
+    if (value > 100) return null;
+    return { mint, thresholdType: 'percent', threshold: value / 100 };
+  }
+  return { mint, thresholdType: 'amount', threshold: value };
+}
+
+export function getRules(): GatingRule[] {
+  return db
+    .getGatingRules()
+    .map((row) => resolveRule(row.chatId))
+    .filter((rule): rule is GatingRule => Boolean(rule) && !rule.isDefault);
+}
+
+export function deleteRule(chatId: string): boolean {
+  return db.deleteGatingRule(chatId);
+}
+
+export function saveRule(chatId: string, operator: RuleOperator, conditions: GatingCondition[]): void {
+  db.saveGatingRule(chatId, operator, JSON.stringify(conditions));
+}
+
+/**
+ * Chats the bot is expected to gate: every chat with a persisted rule plus the
+ * env-configured group.
+ */
+export function getGatedChatIds(): string[] {
+  const chatIds = new Set(db.getGatingRules().map((rule) => rule.chatId));
+  if (config.groupId) {
+    chatIds.add(config.groupId);
+  }
+  return Array.from(chatIds);
+}
+
+/**
+ * Mint used for the verification transfer. The transfer only proves wallet
+ * control, so any mint from the chat's rule works when TOKEN_MINT is unset.
+ */
+export function getVerificationMint(chatId?: string | number | null): string {
+  if (config.tokenMint) return config.tokenMint;
+  const rule = resolveRule(chatId);
+  return rule?.conditions[0]?.mint ?? '';
+}
+
+export async function evaluateRule(rule: GatingRule, walletAddresses: string[], source?: BalanceSource): Promise<RuleEvaluation> {
+  const results: ConditionResult[] = [];
+  for (const condition of rule.conditions) {
+    const ownership = await verifyOwnership({
+      walletAddresses,
+      mint: condition.mint,
+      requiredPercent: condition.thresholdType === 'percent' ? condition.threshold : 0,
+      source,
+    });
+    const isMet =
+      condition.thresholdType === 'percent'
+        ? ownership.isQualified
+        : BigInt(ownership.rawBalance) >= toRawAmount(condition.threshold, ownership.decimals);
+    results.push({ condition, ownership, isMet });
+  }
+  const isQualified = rule.operator === 'or' ? results.some((result) => result.isMet) : results.every((result) => result.isMet);
+  return {
+    rule,
+    isQualified,
+    results,
+    primary: results.find((result) => result.isMet) ?? results[0],
+  };
+}
+
+export default {
+  resolveRule,
+  parseConditionSpec,
+  getRules,
+  deleteRule,
+  saveRule,
+  getGatedChatIds,
+  getVerificationMint,
+  evaluateRule,
+};
@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import { decodeBase58 } from '../utils/base58';
+import { formatRawAmount, toRawAmount } from '../utils/amount';
+import { toCsv } from '../utils/csv';
+import type { ExportFormat } from '../utils/exportFormat';
+import type { RefundRow } from '../db/drizzle';
+
+export interface RefundTotal {
+  asset: string;
+  count: number;
+  total: string;
+}
+
+const CSV_COLUMNS = ['refund_id', 'wallet', 'asset', 'amount', 'source_signature'];
+
+/** Timestamped for readability; the random suffix keeps two exports in the same second apart. */
+export function createBatchId(now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return `refund-${stamp}-${crypto.randomBytes(4).toString('hex')}`;
+}
+
+export function isTransactionSignature(value: string): boolean {
+  try {
+    return decodeBase58(value).length === 64;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Renders a batch for an external signer. Amounts are UI amounts of `asset`
+ * (`SOL` or a mint address); rows keep the ledger order used by
+ * `/refunds paid`.
+ */
+export function formatRefundBatch(rows: RefundRow[], format: ExportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      rows.map((row) => ({
+        refundId: row.id,
+        wallet: row.walletAddress,
+        asset: row.asset,
+        amount: row.amount,
+        sourceSignature: row.sourceSignature,
+      })),
+      null,
+      2
+    );
+  }
+  return toCsv(
+    CSV_COLUMNS,
+    rows.map((row) => [row.id, row.walletAddress, row.asset, row.amount, row.sourceSignature])
+  );
+}
+
+/** Exact per-asset totals; amounts are summed at the finest precision present. */
+export function summarizeRefunds(rows: RefundRow[]): RefundTotal[] {
+  const byAsset = new Map<string, string[]>();
+  rows.forEach((row) => byAsset.set(row.asset, [...(byAsset.get(row.asset) ?? []), row.amount]));
+  return Array.from(byAsset, ([asset, amounts]) => {
+    const decimals = Math.max(0, ...amounts.map((amount) => amount.split('.')[1]?.length ?? 0));
+    const total = amounts.reduce((sum, amount) => sum + toRawAmount(amount, decimals), 0n);
+    return { asset, count: amounts.length, total: formatRawAmount(total, decimals) };
+  });
+}
+
+export default {
+  createBatchId,
+  isTransactionSignature,
+  formatRefundBatch,
+  summarizeRefunds,
+};
@@ -0,0 +1,302 @@
+import { config } from '../config';
+import * as logger from '../utils/logger';
+
+interface RpcResponse<T> {
+  jsonrpc: string;
+  id: string;
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+type RpcError = Error & {
+  code?: number;
+  data?: unknown;
+  status?: number;
+  retryable?: boolean;
+  retryAfterMs?: number;
+};
+
+interface EndpointState {
+  url: string;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  requests: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  rateLimited: number;
+  timeouts: number;
+  totalLatencyMs: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+export interface RpcEndpointMetrics {
+  endpoint: string;
+  healthy: boolean;
+  cooldownUntil: string | null;
+  requests: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  rateLimited: number;
+  timeouts: number;
+  averageLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+// Node-side conditions that usually clear up on another attempt or another node:
+// block not available, node unhealthy/behind, block status not yet available,
+// min context slot not reached, internal error, and provider rate limits.
+const RETRYABLE_RPC_CODES = new Set([-32004, -32005, -32014, -32016, -32603, 429, -32429]);
+const FAILURE_THRESHOLD = 3;
+const BASE_BACKOFF_MS = 250;
+const MAX_BACKOFF_MS = 8000;
+
+const endpoints: EndpointState[] = config.solanaRpcUrls.map((url) => ({
+  url,
+  consecutiveFailures: 0,
+  cooldownUntil: 0,
+  requests: 0,
+  successes: 0,
+  failures: 0,
+  retries: 0,
+  rateLimited: 0,
+  timeouts: 0,
+  totalLatencyMs: 0,
+  lastError: null,
+  lastErrorAt: null,
+}));
+
+const bucketCapacity = Math.max(1, config.rpcRateLimitPerSecond);
+let bucketTokens = bucketCapacity;
+let bucketRefilledAt = Date.now();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function refillBucket(): void {
+  const now = Date.now();
+  const elapsedSeconds = (now - bucketRefilledAt) / 1000;
+  bucketTokens = Math.min(bucketCapacity, bucketTokens + elapsedSeconds * config.rpcRateLimitPerSecond);
+  bucketRefilledAt = now;
+}
+
+/**
+ * Token bucket shared by every endpoint so sweeps never exceed the configured
+ * request rate. A rate of 0 disables limiting.
+ */
+async function acquireToken(): Promise<void> {
+  if (config.rpcRateLimitPerSecond <= 0) return;
+  for (;;) {
+    refillBucket();
+    if (bucketTokens >= 1) {
+      bucketTokens -= 1;
+      return;
+    }
+    const waitMs = Math.ceil(((1 - bucketTokens) / config.rpcRateLimitPerSecond) * 1000);
+    await sleep(waitMs);
+  }
+}
+
+function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+function isHealthy(endpoint: EndpointState, now = Date.now()): boolean {
+  return endpoint.cooldownUntil <= now;
+}
+
+/**
+ * Picks the first healthy endpoint in configured priority order, skipping the
+ * one that just failed when another is available. If every endpoint is cooling
+ * down, the one that recovers soonest is used.
+ */
+function pickEndpoint(previous?: EndpointState): EndpointState {
+  const now = Date.now();
+  const healthy = endpoints.filter((endpoint) => isHealthy(endpoint, now));
+  const candidates = healthy.length > 1 && previous ? healthy.filter((endpoint) => endpoint !== previous) : healthy;
+  if (candidates.length) {
+    return candidates[0];
+  }
+  return [...endpoints].sort((a, b) => a.cooldownUntil - b.cooldownUntil)[0];
+}
+
+function describeEndpoint(url: string): string {
+  try {
+    // Hide paths and query strings, which commonly carry provider API keys.
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+function markSuccess(endpoint: EndpointState, latencyMs: number): void {
+  endpoint.successes += 1;
+  endpoint.totalLatencyMs += latencyMs;
+  endpoint.consecutiveFailures = 0;
+}
+
+function markFailure(endpoint: EndpointState, error: RpcError): void {
+  endpoint.failures += 1;
+  endpoint.consecutiveFailures += 1;
+  endpoint.lastError = error.message;
+  endpoint.lastErrorAt = new Date().toISOString();
+  const isRateLimited = error.status === 429 || error.code === 429 || error.code === -32429;
+  if (isRateLimited) {
+    endpoint.rateLimited += 1;
+  }
+  if (isRateLimited || endpoint.consecutiveFailures >= FAILURE_THRESHOLD) {
+    const cooldown = Math.max(config.rpcEndpointCooldownMs, error.retryAfterMs ?? 0);
+    endpoint.cooldownUntil = Date.now() + cooldown;
+    logger.warn(`RPC endpoint ${describeEndpoint(endpoint.url)} cooling down for ${cooldown}ms: ${error.message}`);
+  }
+}
+
+function toTransportError(endpoint: EndpointState, signal: AbortSignal, cause: unknown, action: string): RpcError {
+  if (signal.aborted) {
+    endpoint.timeouts += 1;
+  }
+  const error = new Error(
+    signal.aborted
+      ? `Solana RPC request timed out after ${config.rpcTimeoutMs}ms`
+      : `Solana RPC ${action}: ${cause instanceof Error ? cause.message : String(cause)}`
+  ) as RpcError;
+  error.retryable = true;
+  return error;
+}
+
+async function sendRequest<T>(endpoint: EndpointState, method: string, params: unknown[]): Promise<T> {
+  const controller = new AbortController();
+  // Stays armed until the body is read: a node can send headers and then stall.
+  const timeout = setTimeout(() => controller.abort(), config.rpcTimeoutMs);
+  try {
+    let response: Response;
+    try {
+      response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: method,
+          method,
+          params,
+        }),
+        signal: controller.signal,
+      });
+    } catch (fetchError) {
+      throw toTransportError(endpoint, controller.signal, fetchError, 'request failed');
+    }
+    if (!response.ok) {
+      const error = new Error(`Solana RPC request failed with status ${response.status}`) as RpcError;
+      error.status = response.status;
+      error.retryable = response.status === 429 || response.status >= 500;
+      error.retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      throw error;
+    }
+    let payload: RpcResponse<T>;
+    try {
+      // A proxy error page or a truncated body is the endpoint's fault, not the request's.
+      payload = JSON.parse(await response.text()) as RpcResponse<T>;
+    } catch (bodyError) {
+      throw toTransportError(endpoint, controller.signal, bodyError, 'response could not be read');
+    }
+    if (!payload || typeof payload !== 'object') {
+      const error = new Error('Solana RPC response is not a JSON-RPC object') as RpcError;
+      error.retryable = true;
+      throw error;
+    }
+    if (payload.error) {
+      const error = new Error(`Solana RPC error: ${payload.error.message || 'Unknown error'}`) as RpcError;
+      error.code = payload.error.code;
+      error.data = payload.error.data;
+      error.retryable = RETRYABLE_RPC_CODES.has(payload.error.code);
+      throw error;
+    }
+    if (payload.result === undefined) {
+      const error = new Error('Solana RPC response missing result field') as RpcError;
+      error.retryable = true;
+      throw error;
+    }
+    return payload.result;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function rpcRequest<T>(method: string, params: unknown[] = []): Promise<T> {
+  if (!endpoints.length) {
+    throw new Error('No Solana RPC endpoints configured.');
+  }
+  let previous: EndpointState | undefined;
+  for (let attempt = 0; ; attempt += 1) {
+    const endpoint = pickEndpoint(previous);
+    await acquireToken();
+    endpoint.requests += 1;
+    if (attempt > 0) {
+      endpoint.retries += 1;
+    }
+    const startedAt = Date.now();
+    try {
+      const result = await sendRequest<T>(endpoint, method, params);
+      markSuccess(endpoint, Date.now() - startedAt);
+      return result;
+    } catch (caught) {
+      const error = caught as RpcError;
+      if (!error.retryable) {
+        // The node answered; the request itself is bad, so the endpoint stays healthy.
+        endpoint.consecutiveFailures = 0;
+        throw error;
+      }
+      markFailure(endpoint, error);
+      if (attempt >= config.rpcMaxRetries) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt, error.retryAfterMs);
+      logger.warn(
+        `RPC ${method} failed on ${describeEndpoint(endpoint.url)} (attempt ${attempt + 1}/${config.rpcMaxRetries + 1}), retrying in ${Math.round(delay)}ms: ${error.message}`
+      );
+      previous = endpoint;
+      await sleep(delay);
+    }
+  }
+}
+
+export function getRpcMetrics(): RpcEndpointMetrics[] {
+  const now = Date.now();
+  return endpoints.map((endpoint) => ({
+    endpoint: describeEndpoint(endpoint.url),
+    healthy: isHealthy(endpoint, now),
+    cooldownUntil: isHealthy(endpoint, now) ? null : new Date(endpoint.cooldownUntil).toISOString(),
+    requests: endpoint.requests,
+    successes: endpoint.successes,
+    failures: endpoint.failures,
+    retries: endpoint.retries,
+    rateLimited: endpoint.rateLimited,
+    timeouts: endpoint.timeouts,
+    averageLatencyMs: endpoint.successes ? Math.round(endpoint.totalLatencyMs / endpoint.successes) : null,
+    lastError: endpoint.lastError,
+    lastErrorAt: endpoint.lastErrorAt,
+  }));
+}
+
+export default {
+  rpcRequest,
+  getRpcMetrics,
+};
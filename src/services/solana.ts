@@ -1,174 +1,444 @@
-import { config } from '../config';
 import * as logger from '../utils/logger';
+import { encodeBase58 } from '../utils/base58';
+import { formatRawAmount, meetsPercent, ratio, rawToNumber, toRawAmount, type RawTokenAmount } from '../utils/amount';
+import { rpcRequest } from './rpc';
 
-interface RpcResponse<T> {
-  jsonrpc: string;
-  id: string;
-  result?: T;
-  error?: {
-    code: number;
-    message: string;
-    data?: unknown;
-  };
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+const TOKEN_ACCOUNT_SIZE = 165;
+// Token account layout (shared by Token-2022): mint (32 bytes), owner (32 bytes), amount (u64 LE).
+const TOKEN_ACCOUNT_OWNER_OFFSET = 32;
+
+export interface MintInfo {
+  programId: string;
+  decimals: number;
 }
 
-async function rpcRequest<T>(method: string, params: unknown[] = []): Promise<T> {
-  const response = await fetch(config.solanaRpcUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      jsonrpc: '2.0',
-      id: method,
-      method,
-      params,
-    }),
-  });
-  if (!response.ok) {
-    throw new Error(`Solana RPC request failed with status ${response.status}`);
-  }
-  const payload = (await response.json()) as RpcResponse<T>;
-  if (payload.error) {
-    const error = new Error(`Solana RPC error: ${payload.error.message || 'Unknown error'}`) as Error & {
-      code?: number;
-      data?: unknown;
-    };
-    error.code = payload.error.code;
-    error.data = payload.error.data;
-    throw error;
+const mintInfoCache = new Map<string, MintInfo>();
+
+/**
+ * Looks up which token program owns a mint (classic or Token-2022) and its
+ * decimals. Both are immutable, so results are cached for the process lifetime.
+ */
+async function getMintInfo(mint: string): Promise<MintInfo> {
+  const cached = mintInfoCache.get(mint);
+  if (cached) return cached;
+  const result = await rpcRequest<{ value?: { owner?: string; data?: { parsed?: { info?: { decimals?: number } } } } | null }>(
+    'getAccountInfo',
+    [mint, { encoding: 'jsonParsed' }]
+  );
+  const owner = result?.value?.owner;
+  const decimals = result?.value?.data?.parsed?.info?.decimals;
+  if (!owner || typeof decimals !== 'number') {
+    throw new Error(`Mint ${mint} not found or not a token mint`);
   }
-  if (payload.result === undefined) {
-    throw new Error('Solana RPC response missing result field');
+  if (owner !== TOKEN_PROGRAM_ID && owner !== TOKEN_2022_PROGRAM_ID) {
+    throw new Error(`Mint ${mint} is owned by unsupported program ${owner}`);
   }
-  return payload.result;
+  const info = { programId: owner, decimals };
+  mintInfoCache.set(mint, info);
+  return info;
 }
 
-async function getTokenSupply(mint: string): Promise<number> {
-  const result = await rpcRequest<{ value?: { uiAmount?: number | null } }>('getTokenSupply', [mint]);
+async function getTokenSupply(mint: string): Promise<RawTokenAmount> {
+  const result = await rpcRequest<{ value?: { amount?: string; decimals?: number } }>('getTokenSupply', [mint]);
   if (!result || !result.value) {
     throw new Error('Invalid getTokenSupply response');
   }
-  const uiAmount = result.value.uiAmount;
-  if (uiAmount === null || uiAmount === undefined) {
-    throw new Error('Token supply missing uiAmount');
+  const { amount, decimals } = result.value;
+  if (amount === undefined || typeof decimals !== 'number') {
+    throw new Error('Token supply missing amount');
   }
-  return uiAmount;
+  return { amount: BigInt(amount), decimals };
 }
 
-async function getTokenBalance(walletAddress: string, mint: string): Promise<number> {
-  const result = await rpcRequest<{ value?: Array<{ account?: { data?: { parsed?: { info?: { tokenAmount?: { uiAmount?: number } } } } } }> }>(
-    'getTokenAccountsByOwner',
-    [walletAddress, { mint }, { encoding: 'jsonParsed' }]
-  );
-  if (!result || !result.value) {
-    return 0;
-  }
-  let total = 0;
-  for (const account of result.value) {
-    const parsed = account?.account?.data?.parsed;
-    const amount = parsed?.info?.tokenAmount?.uiAmount;
-    if (typeof amount === 'number') {
-      total += amount;
+/**
+ * Sums the raw balance of every token account `walletAddress` owns for `mint`.
+ * The mint filter makes the RPC query whichever program owns the mint, so
+ * Token-2022 accounts are included.
+ */
+async function getTokenBalance(walletAddress: string, mint: string): Promise<RawTokenAmount> {
+  const [{ decimals }, result] = await Promise.all([
+    getMintInfo(mint),
+    rpcRequest<{ value?: Array<{ account?: { data?: { parsed?: { info?: { tokenAmount?: { amount?: string } } } } } }> }>(
+      'getTokenAccountsByOwner',
+      [walletAddress, { mint }, { encoding: 'jsonParsed' }]
+    ),
+  ]);
+  let total = 0n;
+  for (const account of result?.value ?? []) {
+    const amount = account?.account?.data?.parsed?.info?.tokenAmount?.amount;
+    if (typeof amount === 'string') {
+      total += BigInt(amount);
     }
   }
-  return total;
+  return { amount: total, decimals };
+}
+
+/** Addresses of the token accounts `owner` holds for `mint`. */
+async function getTokenAccountAddresses(owner: string, mint: string): Promise<string[]> {
+  const result = await rpcRequest<{ value?: Array<{ pubkey?: string }> }>('getTokenAccountsByOwner', [
+    owner,
+    { mint },
+    { encoding: 'jsonParsed' },
+  ]);
+  return (result?.value ?? []).map((account) => account?.pubkey).filter((pubkey): pubkey is string => Boolean(pubkey));
 }
 
-function almostEqual(a: number, b: number, tolerance = 0.000001): boolean {
-  return Math.abs(a - b) <= tolerance;
+/**
+ * Scans every token account of `mint` with one getProgramAccounts call and sums
+ * raw balances for the requested owners. Only the owner and amount bytes are
+ * fetched to keep the payload small.
+ */
+async function scanTokenBalances(mint: string, owners: string[]): Promise<Map<string, bigint>> {
+  const { programId } = await getMintInfo(mint);
+  const wanted = new Set(owners);
+  const balances = new Map<string, bigint>(owners.map((owner) => [owner, 0n]));
+  // Token-2022 accounts with extensions are larger than 165 bytes, so only the
+  // classic program can be narrowed by size.
+  const filters: unknown[] = [{ memcmp: { offset: 0, bytes: mint } }];
+  if (programId === TOKEN_PROGRAM_ID) {
+    filters.unshift({ dataSize: TOKEN_ACCOUNT_SIZE });
+  }
+  const accounts = await rpcRequest<Array<{ pubkey: string; account?: { data?: [string, string] } }>>('getProgramAccounts', [
+    programId,
+    {
+      encoding: 'base64',
+      dataSlice: { offset: TOKEN_ACCOUNT_OWNER_OFFSET, length: 40 },
+      filters,
+    },
+  ]);
+  if (!Array.isArray(accounts)) {
+    throw new Error('Invalid getProgramAccounts response');
+  }
+  for (const entry of accounts) {
+    const encoded = entry?.account?.data?.[0];
+    if (!encoded) continue;
+    const data = Buffer.from(encoded, 'base64');
+    if (data.length < 40) continue;
+    const owner = encodeBase58(data.subarray(0, 32));
+    if (!wanted.has(owner)) continue;
+    balances.set(owner, (balances.get(owner) ?? 0n) + data.readBigUInt64LE(32));
+  }
+  return balances;
 }
 
 export interface MatchingTransfer {
   signature: string;
   slot: number;
   blockTime?: number;
-  userDelta: number;
-  treasuryDelta: number;
+  /** Mint of the matched transfer, or `SOL` for a native transfer. */
+  asset: string;
+  userDelta: string;
+  treasuryDelta: string;
+  memo?: string;
 }
 
-interface FindMatchingTransferOptions {
+type TransactionTokenBalance = {
+  owner?: string;
+  mint?: string;
+  uiTokenAmount?: { amount?: string; decimals?: number };
+};
+
+type ParsedInstruction = {
+  program?: string;
+  programId?: string;
+  parsed?: unknown;
+};
+
+export interface ParsedTransaction {
+  slot: number;
+  blockTime?: number | null;
+  meta?: {
+    err?: unknown;
+    preBalances?: number[];
+    postBalances?: number[];
+    preTokenBalances?: TransactionTokenBalance[];
+    postTokenBalances?: TransactionTokenBalance[];
+    innerInstructions?: Array<{ instructions?: ParsedInstruction[] }>;
+  } | null;
+  transaction?: {
+    message?: {
+      accountKeys?: Array<{ pubkey: string; signer?: boolean } | string>;
+      instructions?: ParsedInstruction[];
+    };
+  };
+}
+
+export interface SignatureInfo {
+  signature: string;
+  slot: number;
+  blockTime?: number | null;
+  err?: unknown;
+}
+
+export interface SignatureQuery {
+  limit?: number;
+  before?: string;
+  until?: string;
+}
+
+/** One page of signatures for `address`, newest first. */
+async function getSignaturesForAddress(address: string, query: SignatureQuery = {}): Promise<SignatureInfo[]> {
+  const options: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) options[key] = value;
+  }
+  const signatures = await rpcRequest<SignatureInfo[]>('getSignaturesForAddress', [address, options]);
+  return Array.isArray(signatures) ? signatures : [];
+}
+
+async function getParsedTransaction(signature: string): Promise<ParsedTransaction | null> {
+  return rpcRequest<ParsedTransaction | null>('getTransaction', [
+    signature,
+    { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 },
+  ]);
+}
+
+const MEMO_PROGRAM_IDS = new Set(['MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr', 'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo']);
+const LAMPORTS_DECIMALS = 9;
+
+function rawTokenBalance(entry: TransactionTokenBalance | undefined): bigint {
+  const amount = entry?.uiTokenAmount?.amount;
+  return amount ? BigInt(amount) : 0n;
+}
+
+function getAccountKeys(tx: ParsedTransaction): Array<{ pubkey: string; signer: boolean }> {
+  return (tx.transaction?.message?.accountKeys ?? []).map((key) =>
+    typeof key === 'string' ? { pubkey: key, signer: false } : { pubkey: key.pubkey, signer: Boolean(key.signer) }
+  );
+}
+
+/** Memo strings from top-level and inner SPL Memo instructions. */
+function getMemos(tx: ParsedTransaction): string[] {
+  const instructions = [
+    ...(tx.transaction?.message?.instructions ?? []),
+    ...(tx.meta?.innerInstructions ?? []).flatMap((inner) => inner.instructions ?? []),
+  ];
+  return instructions
+    .filter((instruction) => instruction.program === 'spl-memo' || MEMO_PROGRAM_IDS.has(instruction.programId ?? ''))
+    .map((instruction) => instruction.parsed)
+    .filter((parsed): parsed is string => typeof parsed === 'string');
+}
+
+/**
+ * What a verification transfer must look like. With `memo` set, any positive
+ * SOL or `mint` transfer signed by the user and carrying the memo nonce
+ * matches; otherwise the exact `expectedAmount` of `mint` must move.
+ */
+export interface TransferCriteria {
   userWallet: string;
   treasuryWallet: string;
   mint: string;
-  expectedAmount: number;
-  searchLimit?: number;
+  expectedAmount?: string;
+  memo?: string;
+  /** Unix seconds; transactions with an earlier blockTime are ignored. */
+  notBefore?: number;
+  /** Signatures that already verified a request and must not match again. */
+  isSignatureUsed?: (signature: string) => boolean;
 }
 
-async function findMatchingTransfer({
-  userWallet,
-  treasuryWallet,
-  mint,
-  expectedAmount,
-  searchLimit = 25,
-}: FindMatchingTransferOptions): Promise<MatchingTransfer | null> {
-  const signatures = await rpcRequest<Array<{ signature: string }>>('getSignaturesForAddress', [userWallet, { limit: searchLimit }]);
-  if (!Array.isArray(signatures)) {
-    return null;
+export interface TransactionMatch {
+  transfer: MatchingTransfer | null;
+  debug: string;
+}
+
+function matchAmountTransfer(signature: string, tx: ParsedTransaction, criteria: TransferCriteria): TransactionMatch {
+  const { userWallet, treasuryWallet, mint } = criteria;
+  const preBalances = tx.meta?.preTokenBalances || [];
+  const postBalances = tx.meta?.postTokenBalances || [];
+  const userPre = preBalances.find((entry) => entry.owner === userWallet && entry.mint === mint);
+  const userPost = postBalances.find((entry) => entry.owner === userWallet && entry.mint === mint);
+  const treasuryPre = preBalances.find((entry) => entry.owner === treasuryWallet && entry.mint === mint);
+  const treasuryPost = postBalances.find((entry) => entry.owner === treasuryWallet && entry.mint === mint);
+  if (!userPre || !userPost || !treasuryPost) {
+    const missingParts = [
+      !userPre ? 'userPre' : null,
+      !userPost ? 'userPost' : null,
+      !treasuryPost ? 'treasuryPost' : null,
+    ]
+      .filter((part): part is string => Boolean(part))
+      .join(', ');
+    return { transfer: null, debug: `${signature.slice(0, 12)} missing ${missingParts || 'balances'}` };
   }
-  const debugEntries: string[] = [];
-  for (const signatureInfo of signatures) {
-    const signature = signatureInfo.signature;
-    const tx = await rpcRequest<{
-      slot: number;
-      blockTime?: number;
-      meta?: {
-        preTokenBalances?: Array<{ owner?: string; mint?: string; uiTokenAmount?: { uiAmount?: number | string } }>;
-        postTokenBalances?: Array<{ owner?: string; mint?: string; uiTokenAmount?: { uiAmount?: number | string } }>;
+  // Compare in raw base units: the expected code is rounded to the mint's
+  // precision, so the tolerance is one base unit of this mint.
+  const decimals = treasuryPost.uiTokenAmount?.decimals ?? userPost.uiTokenAmount?.decimals ?? 0;
+  const expectedRaw = toRawAmount(criteria.expectedAmount ?? '0', decimals);
+  const userDelta = rawTokenBalance(userPre) - rawTokenBalance(userPost);
+  const treasuryDelta = rawTokenBalance(treasuryPost) - rawTokenBalance(treasuryPre);
+  const debug = `${signature.slice(0, 12)} userΔ=${formatRawAmount(userDelta, decimals)}, treasuryΔ=${formatRawAmount(treasuryDelta, decimals)}, expected=${formatRawAmount(expectedRaw, decimals)}`;
+  if (userDelta !== expectedRaw || treasuryDelta !== expectedRaw) {
+    return { transfer: null, debug };
+  }
+  return {
+    transfer: {
+      signature,
+      slot: tx.slot,
+      blockTime: tx.blockTime ?? undefined,
+      asset: mint,
+      userDelta: formatRawAmount(userDelta, decimals),
+      treasuryDelta: formatRawAmount(treasuryDelta, decimals),
+    },
+    debug,
+  };
+}
+
+function matchMemoTransfer(signature: string, tx: ParsedTransaction, criteria: TransferCriteria): TransactionMatch {
+  const { userWallet, treasuryWallet, mint, memo } = criteria;
+  const label = signature.slice(0, 12);
+  const memos = getMemos(tx);
+  const matchedMemo = memos.find((entry) => memo && entry.includes(memo));
+  if (!matchedMemo) {
+    return { transfer: null, debug: `${label} no memo with nonce (${memos.length} memo(s))` };
+  }
+  const accountKeys = getAccountKeys(tx);
+  if (!accountKeys.some((key) => key.pubkey === userWallet && key.signer)) {
+    return { transfer: null, debug: `${label} memo not signed by user wallet` };
+  }
+  const preTokenBalances = tx.meta?.preTokenBalances || [];
+  const postTokenBalances = tx.meta?.postTokenBalances || [];
+  const treasuryTokenPost = postTokenBalances.find((entry) => entry.owner === treasuryWallet && entry.mint === mint);
+  if (treasuryTokenPost) {
+    const treasuryTokenPre = preTokenBalances.find((entry) => entry.owner === treasuryWallet && entry.mint === mint);
+    const userTokenPre = preTokenBalances.find((entry) => entry.owner === userWallet && entry.mint === mint);
+    const userTokenPost = postTokenBalances.find((entry) => entry.owner === userWallet && entry.mint === mint);
+    const decimals = treasuryTokenPost.uiTokenAmount?.decimals ?? 0;
+    const treasuryDelta = rawTokenBalance(treasuryTokenPost) - rawTokenBalance(treasuryTokenPre);
+    const userDelta = rawTokenBalance(userTokenPre) - rawTokenBalance(userTokenPost);
+    if (treasuryDelta > 0n && userDelta > 0n) {
+      return {
+        transfer: {
+          signature,
+          slot: tx.slot,
+          blockTime: tx.blockTime ?? undefined,
+          asset: mint,
+          userDelta: formatRawAmount(userDelta, decimals),
+          treasuryDelta: formatRawAmount(treasuryDelta, decimals),
+          memo: matchedMemo,
+        },
+        debug: `${label} memo + token transfer`,
       };
-    }>('getTransaction', [signature, { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 }]);
-    if (!tx || !tx.meta) {
-      debugEntries.push(`${signature.slice(0, 12)} missing meta`);
-      continue;
-    }
-    const { meta } = tx;
-    const preBalances = meta.preTokenBalances || [];
-    const postBalances = meta.postTokenBalances || [];
-    const userPre = preBalances.find((entry) => entry.owner === userWallet && entry.mint === mint);
-    const userPost = postBalances.find((entry) => entry.owner === userWallet && entry.mint === mint);
-    const treasuryPre = preBalances.find((entry) => entry.owner === treasuryWallet && entry.mint === mint);
-    const treasuryPost = postBalances.find((entry) => entry.owner === treasuryWallet && entry.mint === mint);
-    if (!userPre || !userPost || !treasuryPost) {
-      const missingParts = [
-        !userPre ? 'userPre' : null,
-        !userPost ? 'userPost' : null,
-        !treasuryPost ? 'treasuryPost' : null,
-      ]
-        .filter((part): part is string => Boolean(part))
-        .join(', ');
-      debugEntries.push(`${signature.slice(0, 12)} missing ${missingParts || 'balances'}`);
-      continue;
     }
-    const userUiPre = Number(userPre.uiTokenAmount?.uiAmount || 0);
-    const userUiPost = Number(userPost.uiTokenAmount?.uiAmount || 0);
-    const treasuryUiPre = Number(treasuryPre?.uiTokenAmount?.uiAmount || 0);
-    const treasuryUiPost = Number(treasuryPost.uiTokenAmount?.uiAmount || 0);
-    const userDelta = userUiPre - userUiPost;
-    const treasuryDelta = treasuryUiPost - treasuryUiPre;
-    const userDiff = Math.abs(userDelta - expectedAmount);
-    const treasuryDiff = Math.abs(treasuryDelta - expectedAmount);
-    debugEntries.push(
-      `${signature.slice(0, 12)} userΔ=${userDelta.toFixed(9)} (diff ${userDiff.toExponential(2)}), treasuryΔ=${treasuryDelta.toFixed(9)} (diff ${treasuryDiff.toExponential(2)})`
-    );
-    if (almostEqual(userDelta, expectedAmount) && almostEqual(treasuryDelta, expectedAmount)) {
+  }
+  const treasuryIndex = accountKeys.findIndex((key) => key.pubkey === treasuryWallet);
+  const userIndex = accountKeys.findIndex((key) => key.pubkey === userWallet);
+  const preLamports = tx.meta?.preBalances || [];
+  const postLamports = tx.meta?.postBalances || [];
+  if (treasuryIndex >= 0 && userIndex >= 0) {
+    const treasuryDelta = BigInt(postLamports[treasuryIndex] ?? 0) - BigInt(preLamports[treasuryIndex] ?? 0);
+    const userDelta = BigInt(preLamports[userIndex] ?? 0) - BigInt(postLamports[userIndex] ?? 0);
+    if (treasuryDelta > 0n) {
       return {
-        signature,
-        slot: tx.slot,
-        blockTime: tx.blockTime,
-        userDelta,
-        treasuryDelta,
+        transfer: {
+          signature,
+          slot: tx.slot,
+          blockTime: tx.blockTime ?? undefined,
+          asset: 'SOL',
+          // The user's SOL delta includes the transaction fee.
+          userDelta: formatRawAmount(userDelta, LAMPORTS_DECIMALS),
+          treasuryDelta: formatRawAmount(treasuryDelta, LAMPORTS_DECIMALS),
+          memo: matchedMemo,
+        },
+        debug: `${label} memo + SOL transfer`,
       };
     }
   }
-  if (debugEntries.length) {
+  return { transfer: null, debug: `${label} memo found but no transfer to treasury` };
+}
+
+/** Checks one jsonParsed transaction against verification criteria. */
+function matchTransaction(signature: string, tx: ParsedTransaction | null, criteria: TransferCriteria): TransactionMatch {
+  if (!tx || !tx.meta) {
+    return { transfer: null, debug: `${signature.slice(0, 12)} missing meta` };
+  }
+  if (tx.meta.err) {
+    return { transfer: null, debug: `${signature.slice(0, 12)} failed on-chain` };
+  }
+  if (criteria.notBefore && tx.blockTime && tx.blockTime < criteria.notBefore) {
+    return { transfer: null, debug: `${signature.slice(0, 12)} predates the verification request` };
+  }
+  if (criteria.isSignatureUsed?.(signature)) {
+    return { transfer: null, debug: `${signature.slice(0, 12)} already used for a verification` };
+  }
+  return criteria.memo ? matchMemoTransfer(signature, tx, criteria) : matchAmountTransfer(signature, tx, criteria);
+}
+
+interface FindMatchingTransferOptions extends TransferCriteria {
+  pageSize?: number;
+  /** Upper bound on pages fetched while walking back to `notBefore`. */
+  maxPages?: number;
+}
+
+const INSPECTED_CACHE_LIMIT = 500;
+// Signatures already checked against a given request; finalized transactions never change, so they are not refetched.
+const inspectedSignatures = new Map<string, Set<string>>();
+
+function getInspectedSignatures(key: string): Set<string> {
+  const existing = inspectedSignatures.get(key);
+  inspectedSignatures.delete(key);
+  const inspected = existing ?? new Set<string>();
+  inspectedSignatures.set(key, inspected);
+  if (inspectedSignatures.size > INSPECTED_CACHE_LIMIT) {
+    inspectedSignatures.delete(inspectedSignatures.keys().next().value);
+  }
+  return inspected;
+}
+
+/**
+ * Walks the user's signatures backwards page by page until a match is found
+ * or the page reaches transactions older than `notBefore`. Without
+ * `notBefore` only the first page is searched.
+ */
+async function findMatchingTransfer({ pageSize = 25, maxPages = 20, ...criteria }: FindMatchingTransferOptions): Promise<MatchingTransfer | null> {
+  const { userWallet, treasuryWallet, mint, expectedAmount, memo, notBefore } = criteria;
+  const cacheKey = `${userWallet}:${memo ?? expectedAmount ?? ''}`;
+  const inspected = getInspectedSignatures(cacheKey);
+  const debugEntries: string[] = [];
+  let cachedCount = 0;
+  let before: string | undefined;
+  const pageBudget = notBefore ? maxPages : 1;
+  search: for (let page = 0; page < pageBudget; page += 1) {
+    const signatures = await getSignaturesForAddress(userWallet, { limit: pageSize, before });
+    for (const signatureInfo of signatures) {
+      const signature = signatureInfo.signature;
+      if (notBefore && signatureInfo.blockTime && signatureInfo.blockTime < notBefore) {
+        break search;
+      }
+      if (inspected.has(signature)) {
+        cachedCount += 1;
+        continue;
+      }
+      if (signatureInfo.err) {
+        inspected.add(signature);
+        continue;
+      }
+      const tx = await getParsedTransaction(signature);
+      const { transfer, debug } = matchTransaction(signature, tx, criteria);
+      debugEntries.push(debug);
+      if (transfer) {
+        inspectedSignatures.delete(cacheKey);
+        return transfer;
+      }
+      // A missing transaction may just not be available yet, so only cache real results.
+      if (tx) {
+        inspected.add(signature);
+      }
+    }
+    if (signatures.length < pageSize) break;
+    before = signatures[signatures.length - 1].signature;
+  }
+  if (debugEntries.length || cachedCount) {
     const sample = debugEntries.slice(0, 10);
     logger.warn('[findMatchingTransfer] No matching transfer found', {
       userWallet,
       treasuryWallet,
       mint,
       expectedAmount,
+      memo,
       inspectedSignatures: sample,
       inspectedCount: debugEntries.length,
+      cachedCount,
     });
   } else {
     logger.warn('[findMatchingTransfer] No signatures returned', {
@@ -176,43 +446,111 @@ async function findMatchingTransfer({
       treasuryWallet,
       mint,
       expectedAmount,
+      memo,
     });
   }
   return null;
 }
 
+/**
+ * Where verifyOwnership reads supply and balances from. The default hits the
+ * RPC per call; sweeps pass a preloaded source instead.
+ */
+export interface BalanceSource {
+  getSupply(mint: string): Promise<RawTokenAmount>;
+  getBalance(walletAddress: string, mint: string): Promise<RawTokenAmount>;
+}
+
+export const liveBalanceSource: BalanceSource = {
+  getSupply: (mint) => getTokenSupply(mint),
+  getBalance: (walletAddress, mint) => getTokenBalance(walletAddress, mint),
+};
+
 interface VerifyOwnershipOptions {
-  walletAddress: string;
+  walletAddresses: string[];
   mint: string;
   requiredPercent: number;
+  source?: BalanceSource;
 }
 
+export interface WalletBalance {
+  walletAddress: string;
+  balance: number;
+  rawBalance: string;
+}
+
+/**
+ * `balance`, `supply` and `percentOwned` are for display and storage; the raw
+ * fields carry the exact integer amounts used for every comparison.
+ */
 export interface OwnershipResult {
   isQualified: boolean;
   percentOwned: number;
   balance: number;
   supply: number;
+  rawBalance: string;
+  rawSupply: string;
+  decimals: number;
+  wallets: WalletBalance[];
 }
 
-async function verifyOwnership({ walletAddress, mint, requiredPercent }: VerifyOwnershipOptions): Promise<OwnershipResult> {
-  const [supply, balance] = await Promise.all([
-    getTokenSupply(mint),
-    getTokenBalance(walletAddress, mint),
+async function verifyOwnership({
+  walletAddresses,
+  mint,
+  requiredPercent,
+  source = liveBalanceSource,
+}: VerifyOwnershipOptions): Promise<OwnershipResult> {
+  const uniqueWallets = Array.from(new Set(walletAddresses.filter(Boolean)));
+  const [supply, balances] = await Promise.all([
+    source.getSupply(mint),
+    Promise.all(uniqueWallets.map((walletAddress) => source.getBalance(walletAddress, mint))),
   ]);
-  if (supply === 0) {
+  if (supply.amount === 0n) {
     throw new Error('Token supply is zero, cannot verify ownership.');
   }
-  const percentOwned = balance / supply;
-  const isQualified = percentOwned >= requiredPercent;
-  return { isQualified, percentOwned, balance, supply };
+  const { decimals } = supply;
+  const wallets = uniqueWallets.map((walletAddress, index) => ({
+    walletAddress,
+    balance: rawToNumber(balances[index].amount, decimals),
+    rawBalance: balances[index].amount.toString(),
+  }));
+  const balance = balances.reduce((total, entry) => total + entry.amount, 0n);
+  return {
+    isQualified: meetsPercent(balance, supply.amount, requiredPercent),
+    percentOwned: ratio(balance, supply.amount),
+    balance: rawToNumber(balance, decimals),
+    supply: rawToNumber(supply.amount, decimals),
+    rawBalance: balance.toString(),
+    rawSupply: supply.amount.toString(),
+    decimals,
+    wallets,
+  };
 }
 
 export default {
   rpcRequest,
+  getMintInfo,
   getTokenSupply,
   getTokenBalance,
+  getTokenAccountAddresses,
+  scanTokenBalances,
+  getSignaturesForAddress,
+  getParsedTransaction,
+  matchTransaction,
   findMatchingTransfer,
   verifyOwnership,
 };
 
-export { rpcRequest, getTokenSupply, getTokenBalance, findMatchingTransfer, verifyOwnership };
+export {
+  rpcRequest,
+  getMintInfo,
+  getTokenSupply,
+  getTokenBalance,
+  getTokenAccountAddresses,
+  scanTokenBalances,
+  getSignaturesForAddress,
+  getParsedTransaction,
+  matchTransaction,
+  findMatchingTransfer,
+  verifyOwnership,
+};
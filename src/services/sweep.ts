@@ -0,0 +1,62 @@
+import { config } from '../config';
+import * as logger from '../utils/logger';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getTokenBalance, getTokenSupply, liveBalanceSource, scanTokenBalances, type BalanceSource } from './solana';
+import type { RawTokenAmount } from '../utils/amount';
+
+export interface SweepBalanceRequest {
+  mints: string[];
+  owners: string[];
+}
+
+async function loadOwnerBalances(mint: string, owners: string[]): Promise<Map<string, bigint>> {
+  const balances = await mapWithConcurrency(owners, config.sweepConcurrency, (owner) => getTokenBalance(owner, mint));
+  return new Map(owners.map((owner, index) => [owner, balances[index].amount]));
+}
+
+async function loadMintBalances(mint: string, owners: string[]): Promise<Map<string, bigint>> {
+  if (config.sweepBalanceStrategy === 'scan') {
+    try {
+      return await scanTokenBalances(mint, owners);
+    } catch (error) {
+      logger.warn(`Ownership sweep: getProgramAccounts scan failed for ${mint}, falling back to per-owner lookups`, error);
+    }
+  }
+  return loadOwnerBalances(mint, owners);
+}
+
+/**
+ * Preloads supply (once per mint) and balances for every owner a sweep will
+ * check, so per-user rule evaluation runs without further RPC calls. Lookups
+ * outside the preloaded set fall through to the live RPC source.
+ */
+export async function createSweepBalanceSource({ mints, owners }: SweepBalanceRequest): Promise<BalanceSource> {
+  const uniqueMints = Array.from(new Set(mints.filter(Boolean)));
+  const uniqueOwners = Array.from(new Set(owners.filter(Boolean)));
+  const supplies = new Map<string, RawTokenAmount>();
+  const balances = new Map<string, Map<string, bigint>>();
+  await mapWithConcurrency(uniqueMints, config.sweepConcurrency, async (mint) => {
+    supplies.set(mint, await getTokenSupply(mint));
+    if (uniqueOwners.length) {
+      balances.set(mint, await loadMintBalances(mint, uniqueOwners));
+    }
+  });
+  logger.log(
+    `Ownership sweep: preloaded ${uniqueMints.length} mint(s) for ${uniqueOwners.length} wallet(s) using the ${config.sweepBalanceStrategy} strategy.`
+  );
+  return {
+    getSupply: async (mint) => supplies.get(mint) ?? liveBalanceSource.getSupply(mint),
+    getBalance: async (walletAddress, mint) => {
+      const amount = balances.get(mint)?.get(walletAddress);
+      const supply = supplies.get(mint);
+      if (amount === undefined || !supply) {
+        return liveBalanceSource.getBalance(walletAddress, mint);
+      }
+      return { amount, decimals: supply.decimals };
+    },
+  };
+}
+
+export default {
+  createSweepBalanceSource,
+};
@@ -0,0 +1,62 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { planSweepActions, type SweepPolicyInput } from './sweepPolicy';
+import type { TierDefinition } from '../config';
+
+const WHALE: TierDefinition = { name: 'Whale', minPercent: 0.005, chatId: '-1001' };
+const KRAKEN: TierDefinition = { name: 'Kraken', minPercent: 0.01, chatId: '-1002' };
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+
+function plan(overrides: Partial<SweepPolicyInput>) {
+  return planSweepActions({
+    failingChatIds: [],
+    tiers: [WHALE, KRAKEN],
+    tier: KRAKEN,
+    admittedChatIds: ['-100', WHALE.chatId, KRAKEN.chatId],
+    graceDeadline: null,
+    graceMinutes: 180,
+    now: NOW,
+    ...overrides,
+  });
+}
+
+test('a tier dip opens the grace window instead of removing from the tier chat', () => {
+  const actions = plan({ tier: WHALE });
+  assert.equal(actions.grace, 'warn');
+  assert.deepEqual(actions.lostTierChats, [KRAKEN]);
+  assert.deepEqual(actions.removeTierChats, []);
+});
+
+test('a dip inside the grace window leaves tier-chat admissions in place', () => {
+  const actions = plan({ tier: WHALE, graceDeadline: new Date(NOW + 60 * 60 * 1000).toISOString() });
+  assert.equal(actions.grace, 'wait');
+  assert.deepEqual(actions.removeTierChats, []);
+});
+
+test('a dip still there after the grace window removes only the lost tier chat', () => {
+  const actions = plan({ tier: WHALE, graceDeadline: new Date(NOW - 1).toISOString() });
+  assert.equal(actions.grace, 'remove');
+  assert.deepEqual(actions.removeTierChats, [KRAKEN]);
+});
+
+test('failing a gated chat after the grace window removes every tier chat', () => {
+  const actions = plan({ tier: null, failingChatIds: ['-100'], graceDeadline: new Date(NOW - 1).toISOString() });
+  assert.equal(actions.grace, 'remove');
+  assert.deepEqual(actions.removeTierChats, [WHALE, KRAKEN]);
+});
+
+test('recovering within the grace window clears it', () => {
+  assert.equal(plan({ graceDeadline: new Date(NOW + 1).toISOString() }).grace, 'requalified');
+});
+
+test('reaching a tier invites to its chat without waiting', () => {
+  const actions = plan({ admittedChatIds: ['-100', WHALE.chatId] });
+  assert.equal(actions.grace, 'none');
+  assert.deepEqual(actions.inviteTierChats, [KRAKEN]);
+});
+
+test('without a grace period a tier dip removes right away', () => {
+  const actions = plan({ tier: WHALE, graceMinutes: 0 });
+  assert.equal(actions.grace, 'remove');
+  assert.deepEqual(actions.removeTierChats, [KRAKEN]);
+});
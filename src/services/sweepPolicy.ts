@@ -0,0 +1,69 @@
+import type { TierDefinition } from '../config';
+
+export type GraceAction = 'none' | 'requalified' | 'warn' | 'wait' | 'remove';
+
+export interface SweepPolicyInput {
+  /** Gated chats whose rule the user no longer meets. */
+  failingChatIds: string[];
+  tiers: TierDefinition[];
+  /** Highest tier the user's holdings currently reach. */
+  tier: TierDefinition | null;
+  /** Chats the user currently holds an admission for. */
+  admittedChatIds: string[];
+  graceDeadline: string | null;
+  graceMinutes: number;
+  now: number;
+}
+
+export interface SweepActions {
+  grace: GraceAction;
+  /** Tier-linked chats to invite the user to right away. */
+  inviteTierChats: TierDefinition[];
+  /** Admitted tier-linked chats the current tier no longer unlocks. */
+  lostTierChats: TierDefinition[];
+  /** Tier-linked chats to remove the user from; only set once the grace window is over. */
+  removeTierChats: TierDefinition[];
+}
+
+function isUnlocked(linkedTier: TierDefinition, tier: TierDefinition | null): boolean {
+  return Boolean(tier) && tier.minPercent >= linkedTier.minPercent;
+}
+
+/**
+ * Decides what one sweep does to a user. Losing a tier-linked chat counts as
+ * falling short just like failing a gated chat's rule, so both share the single
+ * warn-then-remove grace window; promotions into tier chats are never delayed.
+ */
+export function planSweepActions({
+  failingChatIds,
+  tiers,
+  tier,
+  admittedChatIds,
+  graceDeadline,
+  graceMinutes,
+  now,
+}: SweepPolicyInput): SweepActions {
+  const linked = tiers.filter((linkedTier) => linkedTier.chatId);
+  const admitted = linked.filter((linkedTier) => admittedChatIds.includes(linkedTier.chatId));
+  const inviteTierChats = linked.filter((linkedTier) => isUnlocked(linkedTier, tier) && !admittedChatIds.includes(linkedTier.chatId));
+  const lostTierChats = admitted.filter((linkedTier) => !isUnlocked(linkedTier, tier));
+  let grace: GraceAction = 'remove';
+  if (!failingChatIds.length && !lostTierChats.length) {
+    grace = graceDeadline ? 'requalified' : 'none';
+  } else if (graceMinutes > 0 && !graceDeadline) {
+    grace = 'warn';
+  } else if (graceMinutes > 0 && now < new Date(graceDeadline).getTime()) {
+    grace = 'wait';
+  }
+  return {
+    grace,
+    inviteTierChats,
+    lostTierChats,
+    // Removal from a gated chat also ends every tier chat, as tiers sit on top of membership.
+    removeTierChats: grace !== 'remove' ? [] : failingChatIds.length ? admitted : lostTierChats,
+  };
+}
+
+export default {
+  planSweepActions,
+};
@@ -5,6 +5,7 @@ export type TelegramMessage = TelegramBot.Message;
 export type TelegramChatJoinRequest = TelegramBot.ChatJoinRequest;
 export type TelegramChatMemberUpdated = TelegramBot.ChatMemberUpdated;
 export type ChatInviteLink = TelegramBot.ChatInviteLink;
+export type TelegramChatMember = TelegramBot.ChatMember;
 
 export interface SendMessageOptions {
   parseMode?: TelegramBot.ParseMode;
@@ -12,6 +13,12 @@ export interface SendMessageOptions {
   replyMarkup?: TelegramBot.SendMessageOptions['reply_markup'];
 }
 
+export interface SendDocumentOptions {
+  filename: string;
+  contentType?: string;
+  caption?: string;
+}
+
 export interface CreateChatInviteLinkOptions {
   expireDate?: number;
   memberLimit?: number;
@@ -26,7 +33,13 @@ function ensureBot(): TelegramBot {
     throw new Error('TELEGRAM_BOT_TOKEN is not configured.');
   }
   if (!botInstance) {
-    botInstance = new TelegramBot(config.telegramToken, { polling: false });
+    botInstance = new TelegramBot(config.telegramToken, {
+      polling: {
+        autoStart: false,
+        // chat_member updates are only delivered when requested explicitly.
+        params: { allowed_updates: JSON.stringify(['message', 'chat_join_request', 'chat_member', 'my_chat_member']) },
+      },
+    });
   }
   return botInstance;
 }
@@ -48,6 +61,17 @@ export function sendMessage(chatId: number, text: string, options: SendMessageOp
   });
 }
 
+/** Uploads `content` as a file attachment; Telegram caps bot uploads at 50 MB. */
+export function sendDocument(chatId: number, content: string | Buffer, options: SendDocumentOptions): Promise<TelegramBot.Message> {
+  const bot = ensureBot();
+  return bot.sendDocument(
+    chatId,
+    typeof content === 'string' ? Buffer.from(content, 'utf8') : content,
+    { caption: options.caption },
+    { filename: options.filename, contentType: options.contentType ?? 'application/octet-stream' }
+  );
+}
+
 export function createChatInviteLink(chatId: number, options: CreateChatInviteLinkOptions = {}): Promise<ChatInviteLink> {
   const bot = ensureBot();
   const payload: TelegramBot.CreateChatInviteLinkOptions = {
@@ -59,6 +83,14 @@ export function createChatInviteLink(chatId: number, options: CreateChatInviteLi
   return bot.createChatInviteLink(chatId, payload);
 }
 
+export function getChatMember(chatId: number, userId: number): Promise<TelegramChatMember> {
+  return ensureBot().getChatMember(chatId, userId);
+}
+
+export function revokeChatInviteLink(chatId: number, inviteLink: string): Promise<ChatInviteLink> {
+  return ensureBot().revokeChatInviteLink(chatId, inviteLink);
+}
+
 export function approveChatJoinRequest(chatId: number, userId: number): Promise<boolean> {
   return ensureBot().approveChatJoinRequest(chatId, userId);
 }
@@ -78,6 +110,43 @@ export function unbanChatMember(chatId: number, userId: number): Promise<boolean
   return ensureBot().unbanChatMember(chatId, userId);
 }
 
+/**
+ * Promotes a member with only `can_manage_chat`, the smallest right that keeps
+ * them an administrator so a custom title can be attached. That right still
+ * exposes the admin log, member list and statistics, and bypasses slow mode.
+ */
+export function promoteTitleOnlyAdmin(chatId: number, userId: number): Promise<boolean> {
+  return ensureBot().promoteChatMember(chatId, userId, {
+    can_manage_chat: true,
+    can_delete_messages: false,
+    can_manage_video_chats: false,
+    can_restrict_members: false,
+    can_promote_members: false,
+    can_change_info: false,
+    can_invite_users: false,
+    can_pin_messages: false,
+  });
+}
+
+export function demoteChatMember(chatId: number, userId: number): Promise<boolean> {
+  return ensureBot().promoteChatMember(chatId, userId, {
+    is_anonymous: false,
+    can_manage_chat: false,
+    can_delete_messages: false,
+    can_manage_video_chats: false,
+    can_restrict_members: false,
+    can_promote_members: false,
+    can_change_info: false,
+    can_invite_users: false,
+    can_pin_messages: false,
+  });
+}
+
+export function setChatAdministratorCustomTitle(chatId: number, userId: number, title: string): Promise<boolean> {
+  // Telegram limits custom titles to 16 characters.
+  return ensureBot().setChatAdministratorCustomTitle(chatId, userId, title.slice(0, 16));
+}
+
 export function getBot(): TelegramBot {
   return ensureBot();
 }
@@ -0,0 +1,247 @@
+import { config } from '../config';
+import * as db from '../db/drizzle';
+import * as logger from '../utils/logger';
+import { getGatedChatIds, getVerificationMint } from './gating';
+import {
+  getParsedTransaction,
+  getSignaturesForAddress,
+  getTokenAccountAddresses,
+  matchTransaction,
+  type MatchingTransfer,
+  type SignatureInfo,
+  type TransferCriteria,
+} from './solana';
+import type { UserRow } from '../db/drizzle';
+
+export type TreasuryMatchHandler = (user: UserRow, transfer: MatchingTransfer) => Promise<void>;
+
+const CURSOR_KEY_PREFIX = 'treasury_cursor:';
+const SIGNATURE_PAGE_LIMIT = 100;
+const MAX_PAGES_PER_POLL = 10;
+const WEBSOCKET_RECONNECT_MS = 10000;
+// Polls to wait for a transaction the RPC does not return yet before skipping it.
+const MAX_UNAVAILABLE_POLLS = 10;
+
+let matchHandler: TreasuryMatchHandler | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+let pollRequested = false;
+const tokenAccountCache = new Map<string, string[]>();
+const unavailablePolls = new Map<string, number>();
+
+/**
+ * Transfer criteria for a user's open verification request, or null when the
+ * request cannot be matched on-chain (signed-message requests, missing config).
+ */
+export function buildTransferCriteria(user: UserRow): TransferCriteria | null {
+  if (!user.walletAddress || user.verificationCode === null || user.verificationMethod === 'signature') {
+    return null;
+  }
+  const mint = getVerificationMint(user.requestedGroupId || config.groupId);
+  if (!mint || !config.treasuryWallet) return null;
+  const notBefore = user.verificationRequestedAt ? Math.floor(new Date(user.verificationRequestedAt).getTime() / 1000) : undefined;
+  if (user.verificationMethod === 'memo') {
+    return {
+      userWallet: user.walletAddress,
+      treasuryWallet: config.treasuryWallet,
+      mint,
+      memo: String(user.verificationCode),
+      notBefore,
+      isSignatureUsed: db.isSignatureUsed,
+    };
+  }
+  return {
+    userWallet: user.walletAddress,
+    treasuryWallet: config.treasuryWallet,
+    mint,
+    notBefore,
+    isSignatureUsed: db.isSignatureUsed,
+    // Databases created before codes were stored as TEXT may still hand back a REAL.
+    expectedAmount: String(user.verificationCode),
+  };
+}
+
+function isExpired(user: UserRow): boolean {
+  return Boolean(user.verificationExpiresAt) && Date.now() > new Date(user.verificationExpiresAt).getTime();
+}
+
+/**
+ * The treasury wallet itself (native SOL transfers) plus its token accounts for
+ * every verification mint. Token transfers only touch the token account, so
+ * watching the wallet alone would miss them.
+ */
+async function getWatchedAddresses(): Promise<string[]> {
+  const addresses = new Set<string>([config.treasuryWallet]);
+  const mints = new Set(getGatedChatIds().map((chatId) => getVerificationMint(chatId)).filter(Boolean));
+  for (const mint of mints) {
+    let accounts = tokenAccountCache.get(mint);
+    if (!accounts?.length) {
+      // Re-queried until found: the account may only be created by the first transfer.
+      accounts = await getTokenAccountAddresses(config.treasuryWallet, mint);
+      tokenAccountCache.set(mint, accounts);
+    }
+    accounts.forEach((account) => addresses.add(account));
+  }
+  return Array.from(addresses);
+}
+
+/**
+ * Signatures newer than the persisted cursor, newest first. Without a cursor
+ * only the latest page is returned so a first start does not replay history.
+ */
+async function fetchNewSignatures(address: string, cursor: string | null): Promise<SignatureInfo[]> {
+  const collected: SignatureInfo[] = [];
+  let before: string | undefined;
+  for (let page = 0; page < MAX_PAGES_PER_POLL; page += 1) {
+    const signatures = await getSignaturesForAddress(address, {
+      limit: SIGNATURE_PAGE_LIMIT,
+      before,
+      until: cursor ?? undefined,
+    });
+    collected.push(...signatures);
+    if (!cursor || signatures.length < SIGNATURE_PAGE_LIMIT) {
+      return collected;
+    }
+    before = signatures[signatures.length - 1].signature;
+  }
+  logger.warn(`Treasury watcher: more than ${collected.length} new signatures on ${address}, older ones were skipped.`);
+  return collected;
+}
+
+/**
+ * Returns false when the transaction could not be fetched yet (the node is
+ * behind or has not reached the commitment level), so the caller can retry it.
+ */
+async function processSignature(signatureInfo: SignatureInfo, pending: UserRow[]): Promise<boolean> {
+  if (signatureInfo.err) return true;
+  const candidates = pending.filter((user) => !isExpired(user) && buildTransferCriteria(user));
+  if (!candidates.length) return true;
+  const tx = await getParsedTransaction(signatureInfo.signature);
+  if (!tx) return false;
+  for (const user of candidates) {
+    const criteria = buildTransferCriteria(user);
+    const { transfer } = matchTransaction(signatureInfo.signature, tx, criteria);
+    if (!transfer) continue;
+    // /confirm may have completed the request while this poll was running.
+    const latest = db.getUserByTelegramId(user.telegramId);
+    if (!latest || latest.verificationCode === null || String(latest.verificationCode) !== String(user.verificationCode)) {
+      continue;
+    }
+    pending.splice(pending.indexOf(user), 1);
+    logger.log(`Treasury watcher: ${transfer.signature} matches the pending verification of ${user.telegramId}.`);
+    if (matchHandler) {
+      await matchHandler(latest, transfer);
+    }
+    return true;
+  }
+  return true;
+}
+
+async function pollAddress(address: string, pending: UserRow[]): Promise<void> {
+  const cursorKey = `${CURSOR_KEY_PREFIX}${address}`;
+  const cursor = db.getBotState(cursorKey);
+  const signatures = await fetchNewSignatures(address, cursor);
+  if (!signatures.length) return;
+  if (pending.length) {
+    // Oldest first, advancing the cursor as we go so a failure resumes where it stopped.
+    for (const signatureInfo of [...signatures].reverse()) {
+      if (!(await processSignature(signatureInfo, pending))) {
+        const polls = (unavailablePolls.get(signatureInfo.signature) ?? 0) + 1;
+        if (polls < MAX_UNAVAILABLE_POLLS) {
+          unavailablePolls.set(signatureInfo.signature, polls);
+          return;
+        }
+        logger.warn(`Treasury watcher: transaction ${signatureInfo.signature} was still unavailable after ${polls} polls, skipping it.`);
+      }
+      unavailablePolls.delete(signatureInfo.signature);
+      db.setBotState(cursorKey, signatureInfo.signature);
+    }
+    return;
+  }
+  db.setBotState(cursorKey, signatures[0].signature);
+}
+
+export async function pollTreasury(): Promise<void> {
+  if (polling) {
+    pollRequested = true;
+    return;
+  }
+  polling = true;
+  try {
+    do {
+      pollRequested = false;
+      const pending = db.getOpenVerificationRequests();
+      for (const address of await getWatchedAddresses()) {
+        await pollAddress(address, pending);
+      }
+    } while (pollRequested);
+  } catch (error) {
+    logger.error('Treasury watcher poll failed', error);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Subscribes to logs mentioning each watched address. Notifications only
+ * trigger an immediate poll; the cursor logic stays in one place.
+ */
+async function subscribeToLogs(): Promise<void> {
+  if (typeof WebSocket !== 'function') {
+    logger.warn('SOLANA_WS_URL is set but this runtime has no WebSocket support; the treasury watcher will poll only.');
+    return;
+  }
+  const addresses = await getWatchedAddresses();
+  const socket = new WebSocket(config.solanaWsUrl);
+  socket.addEventListener('open', () => {
+    addresses.forEach((address, index) => {
+      socket.send(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: index + 1,
+          method: 'logsSubscribe',
+          params: [{ mentions: [address] }, { commitment: 'confirmed' }],
+        })
+      );
+    });
+    logger.log(`Treasury watcher subscribed to logs for ${addresses.length} address(es).`);
+  });
+  socket.addEventListener('message', (event) => {
+    try {
+      const payload = JSON.parse(String(event.data));
+      if (payload?.method === 'logsNotification') {
+        void pollTreasury();
+      }
+    } catch (error) {
+      logger.warn('Treasury watcher received a malformed websocket message', error);
+    }
+  });
+  socket.addEventListener('error', () => {
+    logger.warn('Treasury watcher websocket error');
+  });
+  socket.addEventListener('close', () => {
+    logger.warn(`Treasury watcher websocket closed, reconnecting in ${WEBSOCKET_RECONNECT_MS}ms.`);
+    setTimeout(() => {
+      subscribeToLogs().catch((error) => logger.error('Treasury watcher websocket reconnect failed', error));
+    }, WEBSOCKET_RECONNECT_MS);
+  });
+}
+
+export function startTreasuryWatcher(onMatch: TreasuryMatchHandler): void {
+  if (!config.treasuryWallet || config.treasuryPollIntervalMs <= 0 || pollTimer) return;
+  matchHandler = onMatch;
+  pollTimer = setInterval(() => {
+    void pollTreasury();
+  }, config.treasuryPollIntervalMs);
+  void pollTreasury();
+  if (config.solanaWsUrl) {
+    subscribeToLogs().catch((error) => logger.error('Treasury watcher websocket setup failed', error));
+  }
+  logger.log(`Treasury watcher polling every ${config.treasuryPollIntervalMs}ms.`);
+}
+
+export default {
+  buildTransferCriteria,
+  pollTreasury,
+  startTreasuryWatcher,
+};
@@ -0,0 +1,81 @@
+import * as db from '../db/drizzle';
+import { formatRawAmount } from '../utils/amount';
+import type { DateRange } from '../db/events';
+import type { BalanceSnapshotRow, SnapshotWindow } from '../db/drizzle';
+
+export interface HolderTrend {
+  telegramId: string;
+  mint: string;
+  from: BalanceSnapshotRow;
+  to: BalanceSnapshotRow;
+  /** Exact token change as a UI amount string, signed. */
+  balanceChange: string;
+  /** Change in share of supply, as a fraction (0.001 = 0.1 percentage points). */
+  percentChange: number;
+}
+
+export interface TrendDigest {
+  accumulators: HolderTrend[];
+  sellers: HolderTrend[];
+}
+
+const SPARK_CHARACTERS = '▁▂▃▄▅▆▇█';
+
+export function toTrend({ telegramId, mint, first, last }: SnapshotWindow): HolderTrend {
+  const change = BigInt(last.rawBalance) - BigInt(first.rawBalance);
+  return {
+    telegramId,
+    mint,
+    from: first,
+    to: last,
+    balanceChange: `${change > 0n ? '+' : ''}${formatRawAmount(change, last.decimals)}`,
+    percentChange: last.percentOwned - first.percentOwned,
+  };
+}
+
+/**
+ * Biggest movers among verified members over `range`, ranked by change in
+ * share of supply so holders of different mints compare fairly.
+ */
+export function buildTrendDigest(range: DateRange, size: number): TrendDigest {
+  const verified = new Set(db.getVerifiedUsers().map((user) => String(user.telegramId)));
+  const trends = db
+    .getSnapshotWindows(range)
+    .filter((window) => verified.has(window.telegramId) && window.first.id !== window.last.id)
+    .map(toTrend)
+    .filter((trend) => trend.percentChange !== 0);
+  return {
+    accumulators: trends
+      .filter((trend) => trend.percentChange > 0)
+      .sort((a, b) => b.percentChange - a.percentChange)
+      .slice(0, size),
+    sellers: trends
+      .filter((trend) => trend.percentChange < 0)
+      .sort((a, b) => a.percentChange - b.percentChange)
+      .slice(0, size),
+  };
+}
+
+/** Last snapshot of each UTC day, for charting longer windows. */
+export function downsampleDaily(snapshots: BalanceSnapshotRow[]): BalanceSnapshotRow[] {
+  const byDay = new Map<string, BalanceSnapshotRow>();
+  snapshots.forEach((snapshot) => byDay.set(snapshot.createdAt.slice(0, 10), snapshot));
+  return Array.from(byDay.values());
+}
+
+export function sparkline(values: number[]): string {
+  if (!values.length) return '';
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min;
+  return values
+    .map((value) => SPARK_CHARACTERS[span === 0 ? 0 : Math.round(((value - min) / span) * (SPARK_CHARACTERS.length - 1))])
+    .join('');
+}
+
+export default {
+  toTrend,
+  buildTrendDigest,
+  downsampleDaily,
+  sparkline,
+};
@@ -7,6 +7,11 @@ declare module 'better-sqlite3' {
     constructor(path: string, options?: DatabaseOptions);
     pragma(pragma: string): void;
     exec(sql: string): void;
+    prepare(sql: string): {
+      get(...params: unknown[]): any;
+      all(...params: unknown[]): any[];
+      run(...params: unknown[]): { changes: number; lastInsertRowid: number | bigint };
+    };
   }
   export default Database;
 }
@@ -19,6 +24,7 @@ declare module 'drizzle-orm/better-sqlite3' {
 
 declare module 'drizzle-orm/sqlite-core' {
   export function sqliteTable(...args: any[]): any;
+  export function getTableConfig(table: any): { name: string; columns: Array<{ name: string }> };
   export function integer(column: string, config?: any): any;
   export function text(column: string, config?: any): any;
   export function real(column: string, config?: any): any;
@@ -29,4 +35,7 @@ declare module 'drizzle-orm' {
   export const eq: any;
   export const and: any;
   export const isNotNull: any;
+  export const isNull: any;
+  export const desc: any;
+  export const inArray: any;
 }
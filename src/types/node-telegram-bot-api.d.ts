@@ -8,6 +8,16 @@ declare module 'node-telegram-bot-api' {
       reply_markup?: any;
     }
 
+    interface SendDocumentOptions {
+      caption?: string;
+      parse_mode?: ParseMode;
+    }
+
+    interface FileOptions {
+      filename?: string;
+      contentType?: string;
+    }
+
     interface CreateChatInviteLinkOptions {
       expire_date?: number;
       member_limit?: number;
@@ -15,6 +25,18 @@ declare module 'node-telegram-bot-api' {
       creates_join_request?: boolean;
     }
 
+    interface PromoteChatMemberOptions {
+      is_anonymous?: boolean;
+      can_manage_chat?: boolean;
+      can_delete_messages?: boolean;
+      can_manage_video_chats?: boolean;
+      can_restrict_members?: boolean;
+      can_promote_members?: boolean;
+      can_change_info?: boolean;
+      can_invite_users?: boolean;
+      can_pin_messages?: boolean;
+    }
+
     interface ChatInviteLink {
       invite_link: string;
       expire_date?: number;
@@ -27,6 +49,7 @@ declare module 'node-telegram-bot-api' {
 
     interface User {
       id: number;
+      is_bot?: boolean;
       first_name?: string;
       last_name?: string;
       username?: string;
@@ -56,6 +79,7 @@ declare module 'node-telegram-bot-api' {
     interface ChatMember {
       user: User;
       status: string;
+      is_member?: boolean;
     }
 
     interface ChatMemberUpdated {
@@ -64,6 +88,7 @@ declare module 'node-telegram-bot-api' {
       date: number;
       old_chat_member?: ChatMember;
       new_chat_member?: ChatMember;
+      invite_link?: ChatInviteLink;
     }
   }
 
@@ -81,11 +106,21 @@ declare module 'node-telegram-bot-api' {
     on(event: string, listener: (...args: any[]) => void): this;
 
     sendMessage(chatId: number | string, text: string, options?: TelegramBot.SendMessageOptions): Promise<TelegramBot.Message>;
+    sendDocument(
+      chatId: number | string,
+      doc: string | Buffer,
+      options?: TelegramBot.SendDocumentOptions,
+      fileOptions?: TelegramBot.FileOptions
+    ): Promise<TelegramBot.Message>;
     createChatInviteLink(chatId: number | string, options?: TelegramBot.CreateChatInviteLinkOptions): Promise<TelegramBot.ChatInviteLink>;
+    getChatMember(chatId: number | string, userId: number): Promise<TelegramBot.ChatMember>;
+    revokeChatInviteLink(chatId: number | string, inviteLink: string): Promise<TelegramBot.ChatInviteLink>;
     approveChatJoinRequest(chatId: number | string, userId: number): Promise<boolean>;
     declineChatJoinRequest(chatId: number | string, userId: number): Promise<boolean>;
     banChatMember(chatId: number | string, userId: number, options?: { until_date?: number }): Promise<boolean>;
     unbanChatMember(chatId: number | string, userId: number, options?: { only_if_banned?: boolean }): Promise<boolean>;
+    promoteChatMember(chatId: number | string, userId: number, options?: TelegramBot.PromoteChatMemberOptions): Promise<boolean>;
+    setChatAdministratorCustomTitle(chatId: number | string, userId: number, customTitle: string): Promise<boolean>;
   }
 
   export = TelegramBot;
@@ -8,6 +8,11 @@ declare module 'path' {
   export default path;
 }
 
+declare module 'crypto' {
+  const crypto: any;
+  export default crypto;
+}
+
 declare module 'child_process' {
   export const execFileSync: (...args: any[]) => any;
 }
@@ -0,0 +1,67 @@
+export interface RawTokenAmount {
+  amount: bigint;
+  decimals: number;
+}
+
+// Fixed-point scale used when comparing a bigint ratio against a float percentage.
+const PERCENT_SCALE = 10n ** 12n;
+
+function pow10(decimals: number): bigint {
+  return 10n ** BigInt(decimals);
+}
+
+/**
+ * Converts a UI amount ("0.000004213", 1e-7, 250000) into raw base units for a
+ * mint with `decimals`, rounding half up past the mint's precision.
+ */
+export function toRawAmount(value: string | number, decimals: number): bigint {
+  let text = typeof value === 'number' ? String(value) : value.trim();
+  if (/e/i.test(text)) {
+    text = Number(text).toFixed(Math.min(100, decimals + 1));
+  }
+  const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid token amount "${value}"`);
+  }
+  const [, sign, whole = '', fraction = ''] = match;
+  const kept = fraction.slice(0, decimals).padEnd(decimals, '0');
+  let raw = BigInt(whole || '0') * pow10(decimals) + BigInt(kept || '0');
+  if (fraction.length > decimals && Number(fraction[decimals]) >= 5) {
+    raw += 1n;
+  }
+  return sign ? -raw : raw;
+}
+
+/** Formats raw base units as an exact decimal string without trailing zeros. */
+export function formatRawAmount(raw: bigint, decimals: number): string {
+  const negative = raw < 0n;
+  const absolute = negative ? -raw : raw;
+  const divisor = pow10(decimals);
+  const whole = absolute / divisor;
+  const fraction = (absolute % divisor).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/** Lossy conversion for display and REAL columns; never use it for comparisons. */
+export function rawToNumber(raw: bigint, decimals: number): number {
+  return Number(formatRawAmount(raw, decimals));
+}
+
+export function ratio(numerator: bigint, denominator: bigint): number {
+  if (denominator === 0n) return 0;
+  return Number((numerator * PERCENT_SCALE) / denominator) / Number(PERCENT_SCALE);
+}
+
+/** True when `balance / supply >= requiredPercent`, evaluated in integer math. */
+export function meetsPercent(balance: bigint, supply: bigint, requiredPercent: number): boolean {
+  const required = BigInt(Math.round(requiredPercent * Number(PERCENT_SCALE)));
+  return balance * PERCENT_SCALE >= supply * required;
+}
+
+export default {
+  toRawAmount,
+  formatRawAmount,
+  rawToNumber,
+  ratio,
+  meetsPercent,
+};
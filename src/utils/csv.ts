@@ -0,0 +1,23 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheets evaluate cells starting with these as formulas. A leading `-`
+// is only safe on plain numbers such as chat IDs.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+export function escapeCsv(value: CsvValue): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(columns: string[], rows: CsvValue[][]): string {
+  return [columns.join(','), ...rows.map((row) => row.map(escapeCsv).join(','))].join('\n');
+}
+
+export default {
+  escapeCsv,
+  toCsv,
+};
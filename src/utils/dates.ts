@@ -0,0 +1,21 @@
+import type { DateRange } from '../db/events';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Parses a `YYYY-MM-DD` day as midnight UTC. */
+export function parseDay(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** `[from] [to]` days as a range that includes the whole `to` day. */
+export function toDayRange(from?: Date | null, to?: Date | null): DateRange {
+  return { since: from ?? undefined, until: to ? new Date(to.getTime() + DAY_MS) : undefined };
+}
+
+export default {
+  DAY_MS,
+  parseDay,
+  toDayRange,
+};
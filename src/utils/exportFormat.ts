@@ -0,0 +1,16 @@
+export type ExportFormat = 'csv' | 'json';
+
+/** Defaults to CSV; returns null for anything other than `csv` or `json`. */
+export function parseExportFormat(value: string | undefined): ExportFormat | null {
+  const format = (value || 'csv').toLowerCase();
+  return format === 'csv' || format === 'json' ? format : null;
+}
+
+export function getExportContentType(format: ExportFormat): string {
+  return format === 'json' ? 'application/json' : 'text/csv';
+}
+
+export default {
+  parseExportFormat,
+  getExportContentType,
+};
@@ -1,7 +1,23 @@
+import crypto from 'crypto';
 import { config } from '../config';
+import { formatRawAmount, toRawAmount } from './amount';
+import { encodeBase58 } from './base58';
 
-export function getRandomVerificationAmount(): number {
-  const min = config.minTokenCode;
-  const max = config.maxTokenCode;
-  return Math.round((Math.random() * (max - min) + min) * 1e9) / 1e9;
+/**
+ * Picks a random verification amount between MIN_TOKEN_CODE and MAX_TOKEN_CODE,
+ * drawn in the mint's base units so the code is always representable exactly.
+ */
+export function getRandomVerificationAmount(decimals: number): string {
+  const minRaw = toRawAmount(config.minTokenCode, decimals);
+  const min = minRaw > 0n ? minRaw : 1n;
+  const maxRaw = toRawAmount(config.maxTokenCode, decimals);
+  const max = maxRaw > min ? maxRaw : min;
+  const span = Number(max - min);
+  const offset = BigInt(Math.floor(Math.random() * (span + 1)));
+  return formatRawAmount(min + offset, decimals);
+}
+
+/** Short, unguessable nonce users put in the SPL Memo of their verification transfer. */
+export function getVerificationNonce(): string {
+  return `SAFESOL-${encodeBase58(crypto.randomBytes(6))}`;
 }
@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+import { decodeBase58 } from './base58';
+
+// DER prefix that wraps a raw 32-byte ed25519 public key as an SPKI structure.
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+const OFFCHAIN_SIGNING_DOMAIN = Buffer.concat([Buffer.from([0xff]), Buffer.from('solana offchain', 'ascii')]);
+
+export function buildSignatureChallenge(walletAddress: string, telegramId: string, nonce: string, expiresAt: Date): string {
+  return `SafeSol verification | wallet ${walletAddress} | telegram ${telegramId} | nonce ${nonce} | expires ${expiresAt.toISOString()}`;
+}
+
+/**
+ * Wraps a message in the Solana off-chain message (v0, restricted ASCII)
+ * envelope that some wallets, notably Ledger, sign instead of the raw text.
+ */
+function toOffchainMessage(message: Buffer): Buffer {
+  const length = Buffer.alloc(2);
+  length.writeUInt16LE(message.length);
+  return Buffer.concat([OFFCHAIN_SIGNING_DOMAIN, Buffer.from([0, 0]), length, message]);
+}
+
+function decodeFixed(value: string, expectedLength: number): Buffer | null {
+  try {
+    const bytes = decodeBase58(value.trim());
+    return bytes.length === expectedLength ? Buffer.from(bytes) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks a base58 ed25519 signature of `message` against a wallet address.
+ * Accepts both raw message signatures and off-chain message envelopes.
+ */
+export function verifyWalletSignature(walletAddress: string, message: string, signature: string): boolean {
+  const publicKey = decodeFixed(walletAddress, 32);
+  const signatureBytes = decodeFixed(signature, 64);
+  if (!publicKey || !signatureBytes) return false;
+  const key = crypto.createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey]),
+    format: 'der',
+    type: 'spki',
+  });
+  const payload = Buffer.from(message, 'utf8');
+  return [payload, toOffchainMessage(payload)].some((candidate) => {
+    try {
+      return crypto.verify(null, candidate, key, signatureBytes);
+    } catch {
+      return false;
+    }
+  });
+}
+
+export default {
+  buildSignatureChallenge,
+  verifyWalletSignature,
+};